@@ -1,30 +1,78 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import FileSelect from './components/FileSelect';
 import TextPreview from './components/TextPreview';
 import AudioController from './components/AudioController';
-import { extractTextFromDocument } from './services/documentParser';
-import { generateSpeechFromText } from './services/geminiService';
-import { decodeBase64, decodeAudioData } from './utils/audioUtils';
-import { splitTextIntoChunks } from './utils/textUtils';
-import { AppStatus } from './types';
+import ChapterNavigator from './components/ChapterNavigator';
+import PageRangePicker from './components/PageRangePicker';
+import OcrReviewPanel from './components/OcrReviewPanel';
+import PreprocessPreview from './components/PreprocessPreview';
+import CleaningRulesEditor from './components/CleaningRulesEditor';
+import PronunciationEditor from './components/PronunciationEditor';
+import AudiobookExport from './components/AudiobookExport';
+import { getPdfPageCountInWorker, parseDocumentInWorker, parseImagesInWorker, renderPreprocessPreviewInWorker, reocrImageInWorker, reocrPdfPageInWorker, terminateParserWorker } from './services/parserClient';
+import { getTtsProviders, loadHttpTtsConfig, saveHttpTtsConfig } from './services/ttsProviders';
+import { AudiobookChapterPoint } from './services/audiobookExport';
+import { clearAudioCache, enforceAudioCacheQuota, getAudioCacheKey, getAudioCacheUsage, saveAudioCacheQuota, withAudioCache } from './services/audioCache';
+import { decodeSynthesizedAudio } from './utils/audioUtils';
+import { splitTextIntoChunks, locateChunkOffsets, findChunkIndexAtOffset, replacePageText, locateTextEdit } from './utils/textUtils';
+import { AppStatus, AudioCacheUsage, CleaningRule, DocumentChapter, HttpTtsConfig, OcrLanguage, PageReport, PronunciationEntry, ParsedDocument, ParseProgress, PageRange, PreprocessOptions, ProgressCallback, TtsProviderId } from './types';
+import { ImageOrder, sortImageFiles } from './utils/imageUtils';
+import { DEFAULT_PREPROCESS } from './utils/imagePreprocess';
+import { loadCleaningRules, saveCleaningRules } from './utils/cleaningRules';
+import { applyPronunciation, loadPronunciationLexicon, savePronunciationLexicon } from './utils/pronunciation';
+import { SpokenText, toDisplayOffset, toSpokenText } from './utils/spokenText';
+import { normalizeForSpeech } from './utils/speechNormalize';
+import { alignSpeech, findSpokenIndexAt } from './utils/speechAlignment';
+import { runWhenIdle } from './utils/asyncUtils';
 
 const App: React.FC = () => {
   // State
   const [file, setFile] = useState<File | null>(null);
   const [virtualFileName, setVirtualFileName] = useState<string>(''); 
   const [extractedText, setExtractedText] = useState<string>('');
+  // 解析器输出的、未应用清洗规则的全文，规则编辑器用它预览
+  const [rawText, setRawText] = useState<string>('');
+  const [chapters, setChapters] = useState<DocumentChapter[]>([]);
+  // 每页文字来源与 OCR 置信度，供复核面板使用
+  const [pageReports, setPageReports] = useState<PageReport[]>([]);
+  const [reocrPage, setReocrPage] = useState<number | null>(null);
+  const [reocrError, setReocrError] = useState<string | null>(null);
+  // 复核时重新识别所需的原始文件（图片按识别顺序排列，与页码对应）
+  const ocrSourceRef = useRef<{ pdf?: File; images?: File[] }>({});
+  // 当前解析任务，可随时取消
+  const parseAbortRef = useRef<AbortController | null>(null);
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   
+  // PDF 打开后、解析前等待用户选择页码范围
+  const [pendingPdf, setPendingPdf] = useState<{ file: File; numPages: number } | null>(null);
+  
   // OCR Settings
   const [ocrEngine, setOcrEngine] = useState<'gemini' | 'tesseract'>('tesseract');
+  const [ocrLanguage, setOcrLanguage] = useState<OcrLanguage>('chi_sim');
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(DEFAULT_PREPROCESS);
+  const [docxTables, setDocxTables] = useState<'read' | 'skip'>('read');
+  const [cleaningRules, setCleaningRules] = useState<CleaningRule[]>(loadCleaningRules);
+  const [isRulesEditorOpen, setIsRulesEditorOpen] = useState(false);
+  // 预处理预览中的页码，null 表示未打开
+  const [previewPage, setPreviewPage] = useState<number | null>(null);
 
   // TTS Settings
-  const [ttsEngine, setTtsEngine] = useState<'gemini' | 'browser'>('gemini');
+  const [ttsEngine, setTtsEngine] = useState<TtsProviderId>('gemini');
   // 默认声音设为 Kore (Gemini)
   const [selectedVoice, setSelectedVoice] = useState<string>('Kore');
+  const [httpTtsConfig, setHttpTtsConfig] = useState<HttpTtsConfig>(loadHttpTtsConfig);
+  const ttsProviders = useMemo(() => getTtsProviders(httpTtsConfig), [httpTtsConfig]);
+  const ttsProvider = ttsProviders.find(p => p.id === ttsEngine) || ttsProviders[0];
+  const [pronunciationLexicon, setPronunciationLexicon] = useState<PronunciationEntry[]>(loadPronunciationLexicon);
+  const [isLexiconOpen, setIsLexiconOpen] = useState(false);
+  // 导出有声书时使用的片段与章节，null 表示未打开
+  const [exportSource, setExportSource] = useState<{ chunks: string[]; chapters: AudiobookChapterPoint[] } | null>(null);
   const [playbackRate, setPlaybackRate] = useState<number>(1.0);
   const [browserVoices, setBrowserVoices] = useState<SpeechSynthesisVoice[]>([]);
+  // 合成音频的持久缓存用量（IndexedDB），null 表示尚未读取
+  const [audioCacheUsage, setAudioCacheUsage] = useState<AudioCacheUsage | null>(null);
   
   // Timer State
   const [timerDuration, setTimerDuration] = useState<number>(30); // Default 30 mins
@@ -41,6 +89,8 @@ const App: React.FC = () => {
   const audioContextRef = useRef<AudioContext | null>(null);
   const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
   const audioCacheRef = useRef<Map<number, AudioBuffer>>(new Map());
+  // 每段音频中各字（朗读文本坐标）的开始时间，由能量对齐估算，用于高亮
+  const alignmentCacheRef = useRef<Map<number, number[]>>(new Map());
   const fetchingSetRef = useRef<Set<number>>(new Set());
   const startTimeRef = useRef<number>(0);
   const pausedTimeRef = useRef<number>(0); 
@@ -56,7 +106,7 @@ const App: React.FC = () => {
   // Ref for auto-scrolling the playlist
   const activeChunkRef = useRef<HTMLDivElement>(null);
   // Use ref to track engine to avoid closure stale state in event listeners
-  const ttsEngineRef = useRef<'gemini' | 'browser'>('gemini');
+  const ttsEngineRef = useRef<TtsProviderId>('gemini');
 
   useEffect(() => {
       ttsEngineRef.current = ttsEngine;
@@ -118,8 +168,6 @@ const App: React.FC = () => {
       // 只有初始化且当前没有选声音时，我们才会在 handleEngineChange 里做默认值处理。
   };
 
-  const GEMINI_VOICES_ID = ['Kore', 'Zephyr', 'Puck', 'Fenrir', 'Charon'];
-
   const wakeUpBrowserTTS = () => {
       console.log("[VoiceLoader] Waking up browser TTS...");
       window.speechSynthesis.cancel();
@@ -165,6 +213,8 @@ const App: React.FC = () => {
       }
       window.speechSynthesis.cancel(); 
       if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+      parseAbortRef.current?.abort();
+      terminateParserWorker();
     };
   }, []);
 
@@ -196,6 +246,20 @@ const App: React.FC = () => {
     return () => clearInterval(interval);
   }, [isPlaying, timeLeft]);
 
+  // 各片段在全文中的偏移，只在片段或全文变化时重新定位，避免播放中每次切换片段都重算
+  const chunkOffsets = useMemo(() => locateChunkOffsets(extractedText, chunks), [extractedText, chunks]);
+
+  // 当前片段所在的章节，用于目录高亮
+  const activeChapterIndex = useMemo(() => {
+    if (chapters.length === 0 || chunks.length === 0) return -1;
+    const currentOffset = chunkOffsets[currentChunkIndex] ?? 0;
+    let active = -1;
+    chapters.forEach((chapter, idx) => {
+      if (chapter.offset <= currentOffset) active = idx;
+    });
+    return active;
+  }, [chapters, chunks.length, chunkOffsets, currentChunkIndex]);
+
   // --- Logic ---
 
   const ensureAudioContextReady = () => {
@@ -223,6 +287,7 @@ const App: React.FC = () => {
     window.speechSynthesis.cancel();
     
     audioCacheRef.current.clear();
+    alignmentCacheRef.current.clear();
     fetchingSetRef.current.clear();
     sessionIdRef.current += 1; 
     
@@ -236,59 +301,243 @@ const App: React.FC = () => {
     }
   };
 
-  const handleFileSelected = async (selectedFile: File) => {
-    setFile(selectedFile);
-    setVirtualFileName(selectedFile.name);
+  // 通用解析流程：文件/图片解析共用状态切换与错误处理
+  const runExtraction = async (
+    displayFile: File,
+    displayName: string,
+    extract: (onProgress: ProgressCallback, signal: AbortSignal) => Promise<ParsedDocument>
+  ) => {
+    parseAbortRef.current?.abort();
+    const controller = new AbortController();
+    parseAbortRef.current = controller;
+
+    setFile(displayFile);
+    setVirtualFileName(displayName);
     setStatus(AppStatus.PARSING_PDF);
     setErrorMsg(null);
-    resetAudioState();
-    setExtractedText('');
-    setChunks([]); 
-
-    let estimatedChars = 0;
-    if (timerDuration > 0) {
-        estimatedChars = timerDuration * 500;
-    } else {
-        estimatedChars = 50000;
-    }
-    
-    console.log(`Setting parsing limit to ${estimatedChars} chars. OCR Engine: ${ocrEngine}`);
+    setReocrError(null);
+    setParseProgress(null);
+
+    // 旧文档在新文字出现前继续朗读，等第一段新文字到达（或解析结束）时再换掉
+    let replaced = false;
+    const replaceDocument = () => {
+      if (replaced) return;
+      replaced = true;
+      resetAudioState();
+      // 旧文档朗读期间状态可能被改为播放中
+      setStatus(AppStatus.PARSING_PDF);
+      setExtractedText('');
+      setRawText('');
+      setChapters([]);
+      setPageReports([]);
+      setPreviewPage(null);
+      setChunks([]);
+    };
 
     try {
-      const text = await extractTextFromDocument(selectedFile, (newChunk) => {
-         setExtractedText(prev => prev + newChunk);
-      }, estimatedChars, ocrEngine); 
+      const { text, chapters: parsedChapters, pages, rawText: parsedRawText } = await extract((progress) => {
+         if (progress.chunk) {
+           replaceDocument();
+           setExtractedText(prev => prev + progress.chunk);
+         }
+         setParseProgress(progress);
+      }, controller.signal);
       
+      replaceDocument();
       if (!text || text.trim().length === 0) {
          setExtractedText(""); 
          throw new Error("未能从文档中提取到有效文字。请确认文档包含可读文字。");
       } else {
          setExtractedText(text);
+         setRawText(parsedRawText ?? text);
+         setChapters(parsedChapters);
+         setPageReports(pages || []);
       }
       
       setStatus(AppStatus.IDLE);
     } catch (err: any) {
+      if (controller.signal.aborted) {
+        // 用户主动取消（或已开始新的解析），丢弃已解析的部分
+        console.log("解析已取消");
+        if (parseAbortRef.current === controller) {
+          replaceDocument();
+          setFile(null);
+          setVirtualFileName('');
+          setExtractedText('');
+          setStatus(AppStatus.IDLE);
+        }
+        return;
+      }
       console.error(err);
+      replaceDocument();
       setErrorMsg(err.message || "文档解析失败");
       setStatus(AppStatus.ERROR);
       setFile(null);
+    } finally {
+      if (parseAbortRef.current === controller) {
+        parseAbortRef.current = null;
+        setParseProgress(null);
+      }
     }
   };
 
+  const handleCancelParse = () => {
+    parseAbortRef.current?.abort();
+  };
+
+  const handleFileSelected = async (selectedFile: File) => {
+    const fileType = selectedFile.name.split('.').pop()?.toLowerCase();
+
+    // PDF 先读取页数，让用户选择范围后再解析
+    if (fileType === 'pdf') {
+      setStatus(AppStatus.PARSING_PDF);
+      setErrorMsg(null);
+      try {
+        const numPages = await getPdfPageCountInWorker(selectedFile);
+        setStatus(AppStatus.IDLE);
+        if (numPages > 1) {
+          setPendingPdf({ file: selectedFile, numPages });
+          return;
+        }
+      } catch (err: any) {
+        console.error(err);
+        setErrorMsg(err.message || "文档解析失败");
+        setStatus(AppStatus.ERROR);
+        return;
+      }
+    }
+
+    await parseDocument(selectedFile);
+  };
+
+  const parseDocument = async (selectedFile: File, pageRange?: PageRange) => {
+    console.log(`Parsing ${selectedFile.name}. OCR Engine: ${ocrEngine} (${ocrLanguage})`, pageRange || '');
+
+    ocrSourceRef.current = { pdf: selectedFile };
+    await runExtraction(selectedFile, selectedFile.name, (onProgress, signal) =>
+      parseDocumentInWorker(selectedFile, onProgress, { ocrEngine, ocrLanguage, pageRange, preprocess: preprocessOptions, docxTables, cleaningRules, signal })
+    );
+  };
+
+  const handlePageRangeConfirm = (range: PageRange) => {
+    if (!pendingPdf) return;
+    const selectedFile = pendingPdf.file;
+    setPendingPdf(null);
+    parseDocument(selectedFile, range);
+  };
+
+  const handleImagesSelected = async (images: File[], order: ImageOrder) => {
+    const displayName = images.length === 1 ? images[0].name : `${images.length} 张图片`;
+    console.log(`Running OCR on ${images.length} images. OCR Engine: ${ocrEngine} (${ocrLanguage}), order: ${order}`);
+
+    await runExtraction(images[0], displayName, async (onProgress, signal) => {
+      // 排序结果确定，复核时按页码即可找回对应图片
+      ocrSourceRef.current = { images: await sortImageFiles(images, order) };
+      return parseImagesInWorker(images, onProgress, { ocrEngine, ocrLanguage, preprocess: preprocessOptions, cleaningRules, signal }, order);
+    });
+  };
+
+  // 复核面板：用另一个引擎重新识别单页，并替换全文中该页的文字
+  const handleReocrPage = async (report: PageReport, engine: 'gemini' | 'tesseract') => {
+    const source = ocrSourceRef.current;
+    setReocrPage(report.page);
+    setReocrError(null);
+    try {
+      const result = source.images
+        ? await reocrImageInWorker(source.images[report.page - 1], { ocrEngine: engine, ocrLanguage, preprocess: preprocessOptions, cleaningRules })
+        : source.pdf
+          ? await reocrPdfPageInWorker(source.pdf, report.page, { ocrEngine: engine, ocrLanguage, preprocess: preprocessOptions, cleaningRules })
+          : null;
+      if (!result) return;
+      // 识别失败时不动原文，避免把已有文字清空
+      if (result.source === 'failed') {
+        setReocrError("重新识别失败，已保留原文字");
+        return;
+      }
+
+      const replaced = replacePageText(extractedText, report.offset, report.text, result.text);
+      if (!replaced) {
+        throw new Error("原文已被修改，无法定位该页文字，请手动编辑。");
+      }
+
+      // 文字变化后，之后的页面与章节偏移整体平移（空白页是插入，同一位置的内容也要后移）
+      const isAfter = (offset: number) => report.text ? offset > replaced.start : offset >= replaced.start;
+      const shift = (offset: number) => isAfter(offset) ? offset + replaced.delta : offset;
+
+      // 未应用规则的全文同步替换，否则在规则编辑器里预览时会看到旧的识别结果
+      const rawReplaced = report.rawOffset !== undefined && report.rawText !== undefined
+        ? replacePageText(rawText, report.rawOffset, report.rawText, result.rawText ?? result.text)
+        : null;
+      const shiftRaw = (offset?: number) => {
+        if (offset === undefined || !rawReplaced) return offset;
+        const after = report.rawText ? offset > rawReplaced.start : offset >= rawReplaced.start;
+        return after ? offset + rawReplaced.delta : offset;
+      };
+
+      resetAudioState();
+      setChunks([]);
+      setExtractedText(replaced.text);
+      if (rawReplaced) setRawText(rawReplaced.text);
+      setChapters(prev => prev.map(chapter => ({ ...chapter, offset: shift(chapter.offset) })));
+      setPageReports(prev => prev.map(item => item.page === report.page
+        ? rawReplaced
+          ? { ...item, ...result, offset: replaced.start, rawOffset: rawReplaced.start }
+          : { ...item, ...result, offset: replaced.start, rawText: item.rawText }
+        : { ...item, offset: shift(item.offset), rawOffset: shiftRaw(item.rawOffset) }
+      ));
+    } catch (err: any) {
+      console.error(err);
+      setReocrError(err.message || "重新识别失败");
+    } finally {
+      setReocrPage(null);
+    }
+  };
+
+  // 手动编辑全文：编辑点之后的章节随之平移，落在被改动区间内的章节移到改动起点
+  const handleTextEdit = (text: string) => {
+    const edit = locateTextEdit(extractedText, text);
+    if (edit.delta !== 0 || edit.end > edit.start) {
+      setChapters(prev => prev.map(chapter => {
+        if (chapter.offset >= edit.end) return { ...chapter, offset: chapter.offset + edit.delta };
+        if (chapter.offset > edit.start) return { ...chapter, offset: edit.start };
+        return chapter;
+      }));
+    }
+    setExtractedText(text);
+  };
+
+  const handleSaveCleaningRules = (rules: CleaningRule[]) => {
+    setCleaningRules(rules);
+    saveCleaningRules(rules);
+    setIsRulesEditorOpen(false);
+  };
+
+  // 预处理预览：在 Worker 中按给定设置处理该页，返回前后对比图
+  const loadPreprocessPreview = (report: PageReport, options: PreprocessOptions) => {
+    const source = ocrSourceRef.current;
+    if (source.images) return renderPreprocessPreviewInWorker(source.images[report.page - 1], null, options);
+    if (source.pdf) return renderPreprocessPreviewInWorker(source.pdf, report.page, options);
+    return Promise.reject(new Error("找不到原始文件，无法预览。"));
+  };
+
   const handleTextSubmit = (text: string) => {
       resetAudioState();
       setFile(null);
       setVirtualFileName('手动输入文本.txt');
       setExtractedText(text);
+      setRawText(text);
+      setChapters([]);
+      setPageReports([]);
       setStatus(AppStatus.IDLE);
       setErrorMsg(null);
   };
 
-  const handleEngineChange = (engine: 'gemini' | 'browser') => {
+  const handleEngineChange = (engine: TtsProviderId) => {
       resetAudioState();
       setTtsEngine(engine);
-      if (engine === 'gemini') {
-          setSelectedVoice('Kore');
+      const next = ttsProviders.find(p => p.id === engine);
+      if (next?.kind === 'audio') {
+          setSelectedVoice(next.capabilities.voices[0]?.id || '');
       } else {
           // 只有在切换到本地模式时，才自动选第一个声音
           if (browserVoices.length === 0) {
@@ -296,8 +545,8 @@ const App: React.FC = () => {
           }
           if (browserVoices.length > 0) {
               // 优先选择之前可能选过的，如果没有则选第一个
-              const isGeminiVoice = GEMINI_VOICES_ID.includes(selectedVoice);
-              if (!selectedVoice || isGeminiVoice) {
+              const isOtherEngineVoice = !browserVoices.some(v => v.name === selectedVoice);
+              if (!selectedVoice || isOtherEngineVoice) {
                    setSelectedVoice(browserVoices[0].name);
               }
           } else {
@@ -308,6 +557,18 @@ const App: React.FC = () => {
       setStatus(AppStatus.IDLE);
   };
 
+  // 服务配置变化后已生成的音频失效；声音列表变了则改选第一个
+  const handleHttpTtsConfigChange = (config: HttpTtsConfig) => {
+    setHttpTtsConfig(config);
+    saveHttpTtsConfig(config);
+    if (ttsEngine !== 'http') return;
+    if (!config.voices.includes(selectedVoice)) setSelectedVoice(config.voices[0] || '');
+    if (status === AppStatus.READY_TO_PLAY || status === AppStatus.PLAYING) {
+      resetAudioState();
+      setStatus(AppStatus.IDLE);
+    }
+  };
+
   const handleVoiceChange = (voice: string) => {
     setSelectedVoice(voice);
     if (status === AppStatus.READY_TO_PLAY || status === AppStatus.PLAYING) {
@@ -316,8 +577,53 @@ const App: React.FC = () => {
     }
   };
 
-  // --- Gemini Specific Preload ---
-  const preloadGeminiChunk = async (index: number, currentSessionId: number) => {
+  // 发给 TTS 的文字：先应用发音词典（用户词条优先），再把数字、日期、单位等改写为中文读法
+  // 保留到原文的位置映射用于高亮
+  const toSpeech = (chunk: string): SpokenText =>
+    normalizeForSpeech(applyPronunciation(toSpokenText(chunk), pronunciationLexicon));
+
+  // 词典变化后已生成的音频失效，与切换音色一样重新开始
+  const handleSaveLexicon = (entries: PronunciationEntry[]) => {
+    setPronunciationLexicon(entries);
+    savePronunciationLexicon(entries);
+    setIsLexiconOpen(false);
+    if (status === AppStatus.READY_TO_PLAY || status === AppStatus.PLAYING) {
+      resetAudioState();
+      setStatus(AppStatus.IDLE);
+    }
+  };
+
+  const refreshAudioCacheUsage = () => {
+    getAudioCacheUsage().then(setAudioCacheUsage);
+  };
+
+  useEffect(() => {
+    refreshAudioCacheUsage();
+  }, []);
+
+  const handleAudioCacheQuotaChange = async (quotaBytes: number) => {
+    saveAudioCacheQuota(quotaBytes);
+    try {
+      await enforceAudioCacheQuota(quotaBytes);
+    } catch (e) {
+      console.warn("清理音频缓存失败", e);
+    }
+    refreshAudioCacheUsage();
+  };
+
+  const handlePurgeAudioCache = async () => {
+    if (!window.confirm("确定清空已缓存的全部音频吗？再次朗读时需要重新合成。")) return;
+    try {
+      await clearAudioCache();
+    } catch (e) {
+      console.error("清空音频缓存失败", e);
+    }
+    refreshAudioCacheUsage();
+  };
+
+  // --- 音频类引擎预加载 (Gemini / 自建服务) ---
+  const preloadAudioChunk = async (index: number, currentSessionId: number) => {
+    if (ttsProvider.kind !== 'audio') return;
     if (timeLeft === 0 && timerDuration > 0) return;
     if (index >= chunks.length || index < 0) return;
     if (audioCacheRef.current.has(index)) return;
@@ -326,8 +632,11 @@ const App: React.FC = () => {
     fetchingSetRef.current.add(index);
 
     try {
-      const text = chunks[index];
-      const base64Audio = await generateSpeechFromText(text, selectedVoice);
+      const text = toSpeech(chunks[index]).text;
+      const provider = ttsProvider;
+      const cacheKey = await getAudioCacheKey(provider.model, selectedVoice, text);
+      const audio = await withAudioCache(cacheKey, () => provider.synthesize(text, selectedVoice));
+      refreshAudioCacheUsage();
       
       if (currentSessionId !== sessionIdRef.current) return;
 
@@ -335,10 +644,14 @@ const App: React.FC = () => {
         audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
       }
 
-      const audioBytes = decodeBase64(base64Audio);
-      const audioBuffer = await decodeAudioData(audioBytes, audioContextRef.current, 24000);
+      const audioBuffer = await decodeSynthesizedAudio(audio, audioContextRef.current);
 
       audioCacheRef.current.set(index, audioBuffer);
+      // 对齐较耗时（60 秒的片段约 100 多毫秒），放到空闲时计算，算好之前高亮按时长比例估算
+      runWhenIdle(() => {
+        if (currentSessionId !== sessionIdRef.current) return;
+        alignmentCacheRef.current.set(index, alignSpeech(audioBuffer.getChannelData(0), audioBuffer.sampleRate, text));
+      });
     } catch (error: any) {
       console.error(`Error loading chunk ${index}:`, error);
       throw error;
@@ -347,10 +660,21 @@ const App: React.FC = () => {
     }
   };
 
+  // 尚未开始朗读时片段列表为空，需要先切分
+  const ensureChunks = (): string[] => {
+    if (chunks.length === 0 && extractedText.trim().length > 0) {
+       const chunkSize = ttsProvider.capabilities.maxChunkChars;
+       const newChunks = splitTextIntoChunks(extractedText, chunkSize);
+       setChunks(newChunks);
+       return newChunks;
+    }
+    return chunks;
+  };
+
   const handleJumpToChunk = async (index: number) => {
     if (status === AppStatus.PARSING_PDF) return;
     
-    if (ttsEngine === 'gemini') ensureAudioContextReady();
+    if (ttsProvider.kind === 'audio') ensureAudioContextReady();
     
     isPlayingRef.current = false;
     setIsPlaying(false);
@@ -361,12 +685,7 @@ const App: React.FC = () => {
     
     sessionIdRef.current += 1;
     
-    let currentChunks = chunks;
-    if (chunks.length === 0 && extractedText.trim().length > 0) {
-       const chunkSize = ttsEngine === 'gemini' ? 200 : 2500;
-       currentChunks = splitTextIntoChunks(extractedText, chunkSize);
-       setChunks(currentChunks);
-    }
+    const currentChunks = ensureChunks();
     
     if (currentChunks.length === 0) return;
     
@@ -381,10 +700,39 @@ const App: React.FC = () => {
     playSequence(index, currentChunks);
   };
 
+  // 目录跳转：章节偏移 -> 所在片段
+  const handleJumpToChapter = (chapter: DocumentChapter) => {
+    const currentChunks = ensureChunks();
+    if (currentChunks.length === 0) return;
+    const offsets = currentChunks === chunks ? chunkOffsets : locateChunkOffsets(extractedText, currentChunks);
+    handleJumpToChunk(findChunkIndexAtOffset(offsets, chapter.offset));
+  };
+
+  // 章节标题 -> 所在片段及片段内位置，供有声书写入章节；同一位置只保留第一个标题
+  const getAudiobookChapters = (currentChunks: string[]): AudiobookChapterPoint[] => {
+    const offsets = locateChunkOffsets(extractedText, currentChunks);
+    const points: AudiobookChapterPoint[] = [];
+    for (const chapter of chapters) {
+      const chunkIndex = findChunkIndexAtOffset(offsets, chapter.offset);
+      const length = currentChunks[chunkIndex]?.length || 1;
+      const position = Math.min(1, Math.max(0, (chapter.offset - offsets[chunkIndex]) / length));
+      const last = points[points.length - 1];
+      if (last && last.chunkIndex === chunkIndex && Math.abs(last.position - position) < 0.05) continue;
+      points.push({ title: chapter.title, chunkIndex, position });
+    }
+    return points;
+  };
+
+  // 现有片段可能按其它引擎的长度上限切分，导出总是按当前引擎重新切分
+  const handleOpenExport = () => {
+    const exportChunks = splitTextIntoChunks(extractedText, ttsProvider.capabilities.maxChunkChars);
+    setExportSource({ chunks: exportChunks, chapters: getAudiobookChapters(exportChunks) });
+  };
+
   const handleStartProcess = async () => {
     if (!extractedText) return;
     
-    if (ttsEngine === 'gemini') {
+    if (ttsProvider.kind === 'audio') {
         ensureAudioContextReady();
     } else {
         wakeUpBrowserTTS();
@@ -398,18 +746,18 @@ const App: React.FC = () => {
       setTimeLeft(null);
     }
     
-    const chunkSize = ttsEngine === 'gemini' ? 200 : 2500;
+    const chunkSize = ttsProvider.capabilities.maxChunkChars;
     const newChunks = splitTextIntoChunks(extractedText, chunkSize);
     setChunks(newChunks);
 
     if (newChunks.length === 0) return;
 
-    if (ttsEngine === 'gemini') {
+    if (ttsProvider.kind === 'audio') {
         setStatus(AppStatus.GENERATING_AUDIO); 
         const currentSessionId = sessionIdRef.current;
         
         try {
-            await preloadGeminiChunk(0, currentSessionId);
+            await preloadAudioChunk(0, currentSessionId);
             
             if (currentSessionId !== sessionIdRef.current) return;
 
@@ -461,48 +809,32 @@ const App: React.FC = () => {
     setStatus(AppStatus.PLAYING);
     setChunkProgressIndex(0);
 
-    // === PATH A: BROWSER NATIVE TTS ===
-    if (ttsEngine === 'browser') {
-        const utterance = new SpeechSynthesisUtterance(currentChunks[index]);
-        utterance.rate = playbackRate; 
-        
-        let voiceObj = browserVoices.find(v => v.name === selectedVoice);
-        
-        if (voiceObj) {
-            utterance.voice = voiceObj;
-        } else {
-             utterance.lang = 'zh-CN';
-        }
-        
-        if (selectedVoice === 'SYSTEM_DEFAULT') {
-             utterance.voice = null;
-        }
-        
-        utterance.onboundary = (event) => {
-            if (event.name === 'word' || event.name === 'sentence') {
-                setChunkProgressIndex(event.charIndex);
-            }
-        };
-
-        utterance.onend = () => {
-            if (isPlayingRef.current && sessionIdRef.current === currentSessionId) {
-                setChunkProgressIndex(-1);
-                playSequence(index + 1, currentChunks);
+    // === PATH A: 引擎自行发声 (浏览器语音) ===
+    if (ttsProvider.kind === 'speech') {
+        const spoken = toSpeech(currentChunks[index]);
+        const voiceObj = selectedVoice === 'SYSTEM_DEFAULT'
+            ? null
+            : browserVoices.find(v => v.name === selectedVoice) || null;
+
+        ttsProvider.speak(spoken.text, {
+            voice: voiceObj,
+            rate: playbackRate,
+            onBoundary: (charIndex) => setChunkProgressIndex(toDisplayOffset(spoken, charIndex)),
+            onEnd: () => {
+                if (isPlayingRef.current && sessionIdRef.current === currentSessionId) {
+                    setChunkProgressIndex(-1);
+                    playSequence(index + 1, currentChunks);
+                }
+            },
+            onError: () => {
+                setIsPlaying(false);
+                isPlayingRef.current = false;
             }
-        };
-
-        utterance.onerror = (e) => {
-            if (e.error === 'interrupted' || e.error === 'canceled') return;
-            console.error("Browser TTS Error:", e.error, e);
-            setIsPlaying(false);
-            isPlayingRef.current = false;
-        };
-
-        window.speechSynthesis.speak(utterance);
+        });
         return;
     }
 
-    // === PATH B: GEMINI AI TTS ===
+    // === PATH B: 音频类引擎 (Gemini / 自建服务) ===
     if (!audioContextRef.current) {
         ensureAudioContextReady();
     }
@@ -520,7 +852,7 @@ const App: React.FC = () => {
       setStatus(AppStatus.GENERATING_AUDIO);
       try {
           // 等待下载
-          await preloadGeminiChunk(index, currentSessionId);
+          await preloadAudioChunk(index, currentSessionId);
       } catch (e) {
           // 【修复1】如果预加载彻底失败（如网络错误），必须跳出循环并报错
           // 否则 status 会一直停留在 GENERATING_AUDIO
@@ -554,10 +886,10 @@ const App: React.FC = () => {
     }
 
     // 预加载下两段
-    preloadGeminiChunk(index + 1, currentSessionId).catch(() => {});
+    preloadAudioChunk(index + 1, currentSessionId).catch(() => {});
     setTimeout(() => {
         if (isPlayingRef.current && sessionIdRef.current === currentSessionId) {
-            preloadGeminiChunk(index + 2, currentSessionId).catch(() => {});
+            preloadAudioChunk(index + 2, currentSessionId).catch(() => {});
         }
     }, 5000);
 
@@ -580,6 +912,8 @@ const App: React.FC = () => {
 
     const bufferDuration = buffer.duration;
     const chunkTextLength = currentChunks[index].length;
+    // 按对齐得到的逐字时间定位朗读文本中的位置，再映射回原文位置
+    const spoken = toSpeech(currentChunks[index]);
     
     const animateProgress = () => {
         if (!isPlayingRef.current || sessionIdRef.current !== currentSessionId || !sourceNodeRef.current || !audioContextRef.current) {
@@ -593,9 +927,12 @@ const App: React.FC = () => {
         if (elapsedAudioTime >= bufferDuration) {
             setChunkProgressIndex(chunkTextLength);
         } else {
-            const ratio = elapsedAudioTime / bufferDuration;
-            const estimatedIndex = Math.floor(ratio * chunkTextLength);
-            setChunkProgressIndex(estimatedIndex);
+            // 对齐结果尚未算好时按时长比例估算
+            const charTimes = alignmentCacheRef.current.get(index);
+            const spokenIndex = charTimes
+                ? findSpokenIndexAt(charTimes, elapsedAudioTime)
+                : Math.floor((elapsedAudioTime / bufferDuration) * spoken.text.length);
+            setChunkProgressIndex(toDisplayOffset(spoken, spokenIndex));
             
             animationFrameRef.current = requestAnimationFrame(animateProgress);
         }
@@ -621,8 +958,8 @@ const App: React.FC = () => {
     setStatus(AppStatus.READY_TO_PLAY);
     if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
 
-    if (ttsEngine === 'browser') {
-        window.speechSynthesis.cancel(); 
+    if (ttsProvider.kind === 'speech') {
+        ttsProvider.cancel(); 
     } else {
         if (audioContextRef.current && audioContextRef.current.state === 'running') {
             audioContextRef.current.suspend();
@@ -647,15 +984,22 @@ const App: React.FC = () => {
          }
      }
      
-     if (ttsEngine === 'gemini') ensureAudioContextReady();
+     if (ttsProvider.kind === 'audio') ensureAudioContextReady();
      playSequence(currentChunkIndex);
   };
 
   const handleReset = () => {
+    parseAbortRef.current?.abort();
     resetAudioState();
+    setPendingPdf(null);
     setFile(null);
     setVirtualFileName('');
     setExtractedText('');
+    setRawText('');
+    setChapters([]);
+    setPageReports([]);
+    setPreviewPage(null);
+    ocrSourceRef.current = {};
     setChunks([]);
     setStatus(AppStatus.IDLE);
     setErrorMsg(null);
@@ -685,8 +1029,29 @@ const App: React.FC = () => {
           </div>
           <h1 className="text-xl font-bold text-slate-800">智能文档朗读助手</h1>
         </div>
-        <div className="text-sm text-slate-500 hidden sm:block">
-           快速流式朗读 · Gemini & Native TTS
+        <div className="flex items-center gap-4">
+          <div className="text-sm text-slate-500 hidden sm:block">
+             快速流式朗读 · Gemini & Native TTS
+          </div>
+          <button
+            onClick={() => setIsRulesEditorOpen(true)}
+            className="px-3 py-1.5 text-xs rounded-md border border-slate-200 text-slate-600 hover:bg-slate-50"
+          >
+            清洗规则
+          </button>
+          <button
+            onClick={() => setIsLexiconOpen(true)}
+            className="px-3 py-1.5 text-xs rounded-md border border-slate-200 text-slate-600 hover:bg-slate-50"
+          >
+            发音词典
+          </button>
+          <button
+            onClick={handleOpenExport}
+            disabled={!extractedText.trim() || status === AppStatus.PARSING_PDF}
+            className="px-3 py-1.5 text-xs rounded-md border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+          >
+            导出有声书
+          </button>
         </div>
       </header>
 
@@ -695,14 +1060,30 @@ const App: React.FC = () => {
         
         {/* Left Panel: Input & Text */}
         <div className="flex-1 w-full min-w-0 flex flex-col gap-4 h-auto">
-          {(!file && !extractedText) ? (
+          {pendingPdf ? (
+            <div className="flex-1 flex flex-col justify-center min-h-[500px]">
+               <PageRangePicker
+                 fileName={pendingPdf.file.name}
+                 numPages={pendingPdf.numPages}
+                 onConfirm={handlePageRangeConfirm}
+                 onCancel={() => setPendingPdf(null)}
+               />
+            </div>
+          ) : (!file && !extractedText) ? (
             <div className="flex-1 flex flex-col justify-center min-h-[500px]">
                <FileSelect 
                  onFileSelected={handleFileSelected} 
+                 onImagesSelected={handleImagesSelected}
                  onTextSubmit={handleTextSubmit}
                  isLoading={status === AppStatus.PARSING_PDF} 
                  ocrEngine={ocrEngine}
                  onOcrEngineChange={setOcrEngine}
+                 ocrLanguage={ocrLanguage}
+                 onOcrLanguageChange={setOcrLanguage}
+                 preprocessOptions={preprocessOptions}
+                 onPreprocessOptionsChange={setPreprocessOptions}
+                 docxTables={docxTables}
+                 onDocxTablesChange={setDocxTables}
                />
                {errorMsg && (
                  <div className="mt-4 p-4 bg-red-50 text-red-600 rounded-lg border border-red-200 text-sm text-center animate-pulse">
@@ -714,8 +1095,8 @@ const App: React.FC = () => {
             <div className="w-full">
                <TextPreview 
                   text={extractedText} 
-                  onChange={setExtractedText} 
-                  fileName={file ? file.name : virtualFileName}
+                  onChange={handleTextEdit} 
+                  fileName={virtualFileName || (file ? file.name : '')}
                   isProcessing={status === AppStatus.PARSING_PDF}
                   chunks={chunks}
                   currentChunkIndex={currentChunkIndex}
@@ -740,6 +1121,12 @@ const App: React.FC = () => {
              
              ttsEngine={ttsEngine}
              onEngineChange={handleEngineChange}
+             providers={ttsProviders}
+             httpTtsConfig={httpTtsConfig}
+             onHttpTtsConfigChange={handleHttpTtsConfigChange}
+             audioCacheUsage={audioCacheUsage}
+             onAudioCacheQuotaChange={handleAudioCacheQuotaChange}
+             onPurgeAudioCache={handlePurgeAudioCache}
              selectedVoice={selectedVoice}
              onVoiceChange={handleVoiceChange}
              onRefreshVoices={wakeUpBrowserTTS} 
@@ -752,6 +1139,25 @@ const App: React.FC = () => {
              timeLeft={timeLeft}
            />
 
+           {/* Chapters */}
+           <ChapterNavigator
+             chapters={chapters}
+             activeChapterIndex={activeChapterIndex}
+             onSelectChapter={handleJumpToChapter}
+             disabled={status === AppStatus.PARSING_PDF}
+           />
+
+           {/* OCR Review */}
+           <OcrReviewPanel
+             pages={pageReports}
+             ocrEngine={ocrEngine}
+             reocrPage={reocrPage}
+             error={reocrError}
+             onReocr={handleReocrPage}
+             onPreview={(report) => setPreviewPage(report.page)}
+             disabled={status === AppStatus.PARSING_PDF}
+           />
+
            {/* Playlist */}
            <div className="bg-white rounded-xl border border-slate-200 text-sm text-slate-600 flex-1 flex flex-col shadow-sm max-h-[500px] overflow-hidden">
              <div className="p-4 border-b border-slate-100 bg-slate-50/50">
@@ -774,6 +1180,18 @@ const App: React.FC = () => {
                        <div className="flex flex-col items-center gap-2">
                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-indigo-400"></div>
                          <span>正在逐页解析文档...<br/>文字将实时显示</span>
+                         {parseProgress && (
+                           <span className="text-slate-500">
+                             第 {parseProgress.current} / {parseProgress.total} 页
+                             {parseProgress.engine && ` · ${parseProgress.engine === 'tesseract' ? '本地 OCR' : 'Gemini OCR'}`}
+                           </span>
+                         )}
+                         <button
+                           onClick={handleCancelParse}
+                           className="mt-1 px-3 py-1 rounded-md border border-slate-200 bg-white text-slate-600 hover:bg-red-50 hover:border-red-200 hover:text-red-600 transition-colors"
+                         >
+                           取消解析
+                         </button>
                        </div>
                      ) : (
                         <>
@@ -811,6 +1229,50 @@ const App: React.FC = () => {
         </div>
 
       </main>
+
+      {previewPage !== null && (
+        <PreprocessPreview
+          pages={pageReports.filter(report => report.source !== 'native')}
+          initialPage={previewPage}
+          options={preprocessOptions}
+          onOptionsChange={setPreprocessOptions}
+          loadPreview={loadPreprocessPreview}
+          onReocr={(report) => handleReocrPage(report, 'tesseract')}
+          reocrPage={reocrPage}
+          onClose={() => setPreviewPage(null)}
+        />
+      )}
+
+      {isRulesEditorOpen && (
+        <CleaningRulesEditor
+          rules={cleaningRules}
+          documentText={rawText || extractedText}
+          onSave={handleSaveCleaningRules}
+          onClose={() => setIsRulesEditorOpen(false)}
+        />
+      )}
+
+      {isLexiconOpen && (
+        <PronunciationEditor
+          entries={pronunciationLexicon}
+          documentText={extractedText}
+          onSave={handleSaveLexicon}
+          onClose={() => setIsLexiconOpen(false)}
+        />
+      )}
+
+      {exportSource && (
+        <AudiobookExport
+          chunks={exportSource.chunks}
+          chapters={exportSource.chapters}
+          provider={ttsProvider}
+          voice={selectedVoice}
+          prepareText={(chunk) => toSpeech(chunk).text}
+          title={(virtualFileName || file?.name || '').replace(/\.[^.]+$/, '')}
+          playbackRate={playbackRate}
+          onClose={() => setExportSource(null)}
+        />
+      )}
     </div>
   );
 };
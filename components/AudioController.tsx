@@ -1,5 +1,7 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { AppStatus } from '../types';
+import HttpTtsSettings from './HttpTtsSettings';
+import { TtsProvider } from '../services/ttsProviders';
+import { AppStatus, AudioCacheUsage, HttpTtsConfig, TtsProviderId } from '../types';
 
 interface AudioControllerProps {
   status: AppStatus;
@@ -11,8 +13,11 @@ interface AudioControllerProps {
   isPlaying: boolean;
   
   // Voice & Engine Props
-  ttsEngine: 'gemini' | 'browser';
-  onEngineChange: (engine: 'gemini' | 'browser') => void;
+  ttsEngine: TtsProviderId;
+  onEngineChange: (engine: TtsProviderId) => void;
+  providers: TtsProvider[];
+  httpTtsConfig: HttpTtsConfig;
+  onHttpTtsConfigChange: (config: HttpTtsConfig) => void;
   selectedVoice: string;
   onVoiceChange: (voice: string) => void;
   onRefreshVoices: () => void; // 回调
@@ -24,15 +29,11 @@ interface AudioControllerProps {
   timerDuration: number; // 分钟
   onTimerChange: (minutes: number) => void;
   timeLeft: number | null; // 秒
-}
 
-const GEMINI_VOICES = [
-  { id: 'Kore', name: 'Gemini - Kore (平衡)' },
-  { id: 'Zephyr', name: 'Gemini - Zephyr (温柔)' },
-  { id: 'Puck', name: 'Gemini - Puck (低沉)' },
-  { id: 'Fenrir', name: 'Gemini - Fenrir (激昂)' },
-  { id: 'Charon', name: 'Gemini - Charon (深沉)' },
-];
+  audioCacheUsage: AudioCacheUsage | null;
+  onAudioCacheQuotaChange: (quotaBytes: number) => void;
+  onPurgeAudioCache: () => void;
+}
 
 const SPEED_OPTIONS = [0, 0.25, 0.5, 0.75, 1.0, 1.25, 1.5, 1.75, 2.0];
 
@@ -44,6 +45,17 @@ const TIMER_OPTIONS = [
   { value: 60, label: '60 分钟' },
 ];
 
+const MB = 1024 * 1024;
+const CACHE_QUOTA_OPTIONS = [
+  { value: 50 * MB, label: '50 MB' },
+  { value: 200 * MB, label: '200 MB' },
+  { value: 500 * MB, label: '500 MB' },
+  { value: 1024 * MB, label: '1 GB' },
+];
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * MB ? `${(bytes / 1024 / MB).toFixed(1)} GB` : `${(bytes / MB).toFixed(1)} MB`;
+
 // 辅助函数：格式化显示名称
 const formatVoiceLabel = (v: SpeechSynthesisVoice) => {
    // 去除系统前缀
@@ -73,6 +85,9 @@ const AudioController: React.FC<AudioControllerProps> = ({
   isPlaying,
   ttsEngine,
   onEngineChange,
+  providers,
+  httpTtsConfig,
+  onHttpTtsConfigChange,
   selectedVoice,
   onVoiceChange,
   onRefreshVoices,
@@ -81,10 +96,15 @@ const AudioController: React.FC<AudioControllerProps> = ({
   onPlaybackRateChange,
   timerDuration,
   onTimerChange,
-  timeLeft
+  timeLeft,
+  audioCacheUsage,
+  onAudioCacheQuotaChange,
+  onPurgeAudioCache
 }) => {
   const isGenerating = status === AppStatus.GENERATING_AUDIO;
-  const isBuffering = status === AppStatus.GENERATING_AUDIO;
+  const provider = providers.find(p => p.id === ttsEngine) || providers[0];
+  // 只有返回音频数据的引擎需要缓冲
+  const isBuffering = status === AppStatus.GENERATING_AUDIO && provider.kind === 'audio';
   
   // 新增：刷新按钮的状态反馈
   const [refreshState, setRefreshState] = useState<'idle' | 'loading' | 'done'>('idle');
@@ -130,8 +150,8 @@ const AudioController: React.FC<AudioControllerProps> = ({
   const sortedVoices = useMemo(() => {
     let list: { id: string, name: string }[] = [];
     
-    if (ttsEngine === 'gemini') {
-      list = GEMINI_VOICES.map(v => ({ id: v.id, name: v.name }));
+    if (provider.kind === 'audio') {
+      list = provider.capabilities.voices.map(v => ({ id: v.id, name: v.name }));
     } else {
       // 1. 始终添加“系统默认”作为第一项
       list.push({ id: 'SYSTEM_DEFAULT', name: '📱 系统默认 (跟随手机设置)' });
@@ -148,9 +168,9 @@ const AudioController: React.FC<AudioControllerProps> = ({
       // 3. 检查：如果用户当前选中的声音 (selectedVoice) 还没加载出来，
       // 且不是系统默认，则手动加回列表，防止跳变
       const isSelectedInList = list.some(v => v.id === selectedVoice);
-      const isGeminiVoice = GEMINI_VOICES.some(v => v.id === selectedVoice);
+      const isOtherEngineVoice = providers.some(p => p.capabilities.voices.some(v => v.id === selectedVoice));
       
-      if (!isSelectedInList && !isGeminiVoice && selectedVoice && selectedVoice !== 'SYSTEM_DEFAULT') {
+      if (!isSelectedInList && !isOtherEngineVoice && selectedVoice && selectedVoice !== 'SYSTEM_DEFAULT') {
           list.push({
               id: selectedVoice,
               name: `${selectedVoice} (加载中...)`
@@ -173,7 +193,7 @@ const AudioController: React.FC<AudioControllerProps> = ({
       if (!aFav && bFav) return 1;
       return 0;
     });
-  }, [ttsEngine, browserVoices, favorites, selectedVoice]);
+  }, [provider, providers, browserVoices, favorites, selectedVoice]);
 
 
   const handleVoiceChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -183,7 +203,7 @@ const AudioController: React.FC<AudioControllerProps> = ({
   // 【关键】当用户尝试点击或聚焦下拉菜单时，强制刷新列表
   // 此时属于“用户显式交互”，浏览器会解禁 getVoices 返回完整列表
   const handleInteraction = () => {
-      if (ttsEngine === 'browser') {
+      if (provider.kind === 'speech') {
           console.log("[AudioController] User interacted with dropdown, triggering refresh...");
           onRefreshVoices();
       }
@@ -218,7 +238,7 @@ const AudioController: React.FC<AudioControllerProps> = ({
         
         {/* Header / Status */}
         <div className="text-center pb-2 border-b border-slate-100 min-h-[40px] flex items-center justify-center">
-           {isBuffering && ttsEngine === 'gemini' ? (
+           {isBuffering ? (
              <div className="flex items-center justify-center space-x-2 text-indigo-600">
                 <span className="relative flex h-3 w-3">
                   <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-indigo-400 opacity-75"></span>
@@ -235,7 +255,7 @@ const AudioController: React.FC<AudioControllerProps> = ({
                     <span className="animate-pulse absolute inline-flex h-full w-full rounded-full bg-emerald-400 opacity-75"></span>
                     <span className="relative inline-flex rounded-full h-3 w-3 bg-emerald-500"></span>
                   </span>
-                  <span className="font-medium text-sm">正在朗读 ({ttsEngine === 'gemini' ? 'Gemini' : '本地语音'})</span>
+                  <span className="font-medium text-sm">正在朗读 ({provider.name})</span>
                 </div>
                 {timeLeft !== null && (
                   <span className="text-xs font-mono mt-1 text-emerald-500">
@@ -264,27 +284,25 @@ const AudioController: React.FC<AudioControllerProps> = ({
           <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
              <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider block mb-2">朗读引擎</label>
              <div className="flex gap-2">
-                <button 
-                  onClick={() => onEngineChange('gemini')}
-                  disabled={isPlaying}
-                  className={`flex-1 py-2 px-2 rounded text-xs font-medium transition-colors border
-                    ${ttsEngine === 'gemini' 
-                      ? 'bg-white border-indigo-500 text-indigo-700 shadow-sm' 
-                      : 'bg-slate-100 border-transparent text-slate-500 hover:bg-slate-200'}`}
-                >
-                  Gemini AI<br/>(高音质·有限额)
-                </button>
-                <button 
-                  onClick={() => onEngineChange('browser')}
-                  disabled={isPlaying}
-                  className={`flex-1 py-2 px-2 rounded text-xs font-medium transition-colors border
-                    ${ttsEngine === 'browser' 
-                      ? 'bg-white border-emerald-500 text-emerald-700 shadow-sm' 
-                      : 'bg-slate-100 border-transparent text-slate-500 hover:bg-slate-200'}`}
-                >
-                  本地语音<br/>(免费·无限量)
-                </button>
+                {providers.map(p => (
+                  <button 
+                    key={p.id}
+                    onClick={() => onEngineChange(p.id)}
+                    disabled={isPlaying}
+                    className={`flex-1 py-2 px-2 rounded text-xs font-medium transition-colors border
+                      ${ttsEngine === p.id 
+                        ? (p.kind === 'speech' ? 'bg-white border-emerald-500 text-emerald-700 shadow-sm' : 'bg-white border-indigo-500 text-indigo-700 shadow-sm')
+                        : 'bg-slate-100 border-transparent text-slate-500 hover:bg-slate-200'}`}
+                  >
+                    {p.name}<br/>({p.description})
+                  </button>
+                ))}
              </div>
+             {ttsEngine === 'http' && (
+               <div className="mt-2">
+                 <HttpTtsSettings config={httpTtsConfig} onChange={onHttpTtsConfigChange} disabled={isPlaying} />
+               </div>
+             )}
           </div>
 
           {/* 2. 声音选择 */}
@@ -295,7 +313,7 @@ const AudioController: React.FC<AudioControllerProps> = ({
                     <span className="text-[10px] text-slate-400">
                         {isCurrentFavorite ? '★ 已收藏' : ''}
                     </span>
-                    {ttsEngine === 'browser' && (
+                    {provider.kind === 'speech' && (
                         <button 
                             onClick={handleRefreshClick}
                             disabled={refreshState === 'loading'}
@@ -371,7 +389,7 @@ const AudioController: React.FC<AudioControllerProps> = ({
             </div>
 
              {/* iOS 增强语音教程 */}
-            {ttsEngine === 'browser' && (
+            {provider.kind === 'speech' && (
                 <div className="mt-2 p-3 bg-amber-50 rounded-lg text-xs text-amber-800 leading-relaxed border border-amber-100">
                    <p className="font-bold mb-1">📢 看不到“彬彬”或“莉莉”？</p>
                    <p className="mb-1">这是 iOS 的隐私保护机制。</p>
@@ -426,6 +444,46 @@ const AudioController: React.FC<AudioControllerProps> = ({
                </div>
              </div>
           </div>
+
+          {/* 5. 音频缓存 */}
+          {audioCacheUsage && (
+            <div className="space-y-1 pt-1">
+               <div className="flex justify-between items-center">
+                  <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider">音频缓存</label>
+                  <span className="text-xs text-slate-500">
+                    {formatBytes(audioCacheUsage.bytes)} / {formatBytes(audioCacheUsage.quotaBytes)} · {audioCacheUsage.entries} 段
+                  </span>
+               </div>
+               <div className="w-full h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-400 transition-all"
+                    style={{ width: `${Math.min(100, (audioCacheUsage.bytes / audioCacheUsage.quotaBytes) * 100)}%` }}
+                  ></div>
+               </div>
+               <div className="flex gap-2 pt-1">
+                  <select
+                    value={audioCacheUsage.quotaBytes}
+                    onChange={(e) => onAudioCacheQuotaChange(Number(e.target.value))}
+                    title="超出上限时自动删除最久未播放的音频"
+                    className="flex-1 p-1.5 bg-slate-50 border border-slate-200 rounded-md text-xs text-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none"
+                  >
+                    {!CACHE_QUOTA_OPTIONS.some(opt => opt.value === audioCacheUsage.quotaBytes) && (
+                      <option value={audioCacheUsage.quotaBytes}>{formatBytes(audioCacheUsage.quotaBytes)}</option>
+                    )}
+                    {CACHE_QUOTA_OPTIONS.map(opt => (
+                      <option key={opt.value} value={opt.value}>上限 {opt.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={onPurgeAudioCache}
+                    disabled={isPlaying || audioCacheUsage.entries === 0}
+                    className="px-3 py-1.5 rounded-md text-xs font-medium bg-slate-100 text-slate-600 hover:bg-red-50 hover:text-red-600 transition-colors disabled:opacity-50 disabled:hover:bg-slate-100 disabled:hover:text-slate-600"
+                  >
+                    清空缓存
+                  </button>
+               </div>
+            </div>
+          )}
         </div>
 
         {/* Action Buttons */}
@@ -450,11 +508,11 @@ const AudioController: React.FC<AudioControllerProps> = ({
             <div className="flex gap-3">
               <button
                 onClick={isPlaying ? onPause : onPlay}
-                disabled={isBuffering && !isPlaying && ttsEngine === 'gemini'} 
+                disabled={isBuffering && !isPlaying} 
                 className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-semibold text-white transition-all shadow-md active:scale-95
                   ${isPlaying 
                     ? 'bg-amber-500 hover:bg-amber-600' 
-                    : (isBuffering && ttsEngine === 'gemini')
+                    : isBuffering
                       ? 'bg-slate-400 cursor-wait'
                       : 'bg-emerald-600 hover:bg-emerald-700'}`}
               >
@@ -467,8 +525,8 @@ const AudioController: React.FC<AudioControllerProps> = ({
                    </>
                 ) : (
                   <>
-                    <span>{(isBuffering && ttsEngine === 'gemini') ? '缓冲中...' : '继续播放'}</span>
-                    {!(isBuffering && ttsEngine === 'gemini') && (
+                    <span>{isBuffering ? '缓冲中...' : '继续播放'}</span>
+                    {!isBuffering && (
                       <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
                         <path fillRule="evenodd" d="M4.5 5.653c0-1.426 1.529-2.33 2.779-1.643l11.54 6.348c1.295.712 1.295 2.573 0 3.285L7.28 19.991c-1.25.687-2.779-.217-2.779-1.643V5.653Z" clipRule="evenodd" />
                       </svg>
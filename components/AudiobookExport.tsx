@@ -0,0 +1,261 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TtsProvider } from '../services/ttsProviders';
+import { AudiobookChapterPoint, AudiobookExportJob, createAudiobookExportJob, getChunkTimings, runAudiobookExport } from '../services/audiobookExport';
+import { AudiobookExportProgress, AudiobookFormat, SubtitleFormat } from '../types';
+import { ChunkTiming, buildSubtitleCues, formatSubtitles } from '../utils/subtitles';
+
+interface AudiobookExportProps {
+  chunks: string[];
+  chapters: AudiobookChapterPoint[];
+  provider: TtsProvider;
+  voice: string;
+  prepareText: (chunk: string) => string;
+  title: string; // 文档名（不含扩展名），用作文件名和 M4B 标题
+  playbackRate: number; // 字幕时间轴的默认倍速
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { id: AudiobookFormat; name: string; hint: string }[] = [
+  { id: 'm4b', name: 'M4B', hint: '带章节，适合听书 App' },
+  { id: 'mp3', name: 'MP3', hint: '兼容性最好，无章节' },
+  { id: 'wav', name: 'WAV', hint: '无损，文件很大，仅适合短文' },
+];
+
+const SUBTITLE_OPTIONS: { id: SubtitleFormat; name: string; mime: string }[] = [
+  { id: 'srt', name: 'SRT 字幕', mime: 'application/x-subrip' },
+  { id: 'vtt', name: 'WebVTT 字幕', mime: 'text/vtt' },
+  { id: 'lrc', name: 'LRC 歌词', mime: 'text/plain' },
+];
+
+const SUBTITLE_RATES = [0.5, 0.75, 1.0, 1.25, 1.5, 1.75, 2.0];
+
+type ExportState = 'idle' | 'running' | 'paused' | 'done';
+
+// 有声书导出：合成整份文档并下载为单个音频文件，失败或暂停后可从中断处继续
+const AudiobookExport: React.FC<AudiobookExportProps> = ({ chunks, chapters, provider, voice, prepareText, title, playbackRate, onClose }) => {
+  const [format, setFormat] = useState<AudiobookFormat>('m4b');
+  // Gemini 预览版 TTS 配额较低，默认放慢；自建服务通常不限
+  const [requestsPerMinute, setRequestsPerMinute] = useState(provider.id === 'gemini' ? 10 : 60);
+  const [state, setState] = useState<ExportState>('idle');
+  const [progress, setProgress] = useState<AudiobookExportProgress | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [result, setResult] = useState<{ url: string; fileName: string; size: number; timings: ChunkTiming[] } | null>(null);
+  const [subtitleRate, setSubtitleRate] = useState(SUBTITLE_RATES.includes(playbackRate) ? playbackRate : 1.0);
+
+  const jobRef = useRef<AudiobookExportJob | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+  useEffect(() => () => { if (result) URL.revokeObjectURL(result.url); }, [result]);
+
+  const download = (url: string, fileName: string) => {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+  };
+
+  const handleRun = async () => {
+    if (provider.kind !== 'audio') return;
+    // 格式变化后编码器不能复用，从头开始（已合成的片段会命中音频缓存）
+    if (!jobRef.current || jobRef.current.options.format !== format) {
+      jobRef.current = createAudiobookExportJob({
+        chunks, chapters, provider, voice, format, requestsPerMinute, title, prepareText
+      });
+    }
+    const job = jobRef.current;
+    job.options.requestsPerMinute = requestsPerMinute;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setState('running');
+    setErrorMsg(null);
+    setResult(null);
+
+    try {
+      const blob = await runAudiobookExport(job, setProgress, controller.signal);
+      const fileName = `${title || 'readnow'}.${format}`;
+      const url = URL.createObjectURL(blob);
+      jobRef.current = null;
+      setResult({ url, fileName, size: blob.size, timings: getChunkTimings(job) });
+      setState('done');
+      download(url, fileName);
+    } catch (e: any) {
+      if (controller.signal.aborted) {
+        setState('paused');
+        return;
+      }
+      console.error("Audiobook export failed:", e);
+      setErrorMsg(e?.message || "导出失败");
+      setState('paused');
+    }
+  };
+
+  // 字幕时间来自刚导出的音频，句子时长按朗读文字长度分配
+  const handleExportSubtitles = (option: typeof SUBTITLE_OPTIONS[number]) => {
+    if (!result) return;
+    const cues = buildSubtitleCues(chunks, result.timings, sentence => prepareText(sentence).length, subtitleRate);
+    const blob = new Blob([formatSubtitles(cues, option.id, title)], { type: option.mime });
+    const url = URL.createObjectURL(blob);
+    download(url, `${title || 'readnow'}.${option.id}`);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClose = () => {
+    if (state === 'running' && !window.confirm("导出尚未完成，确定放弃吗？")) return;
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const done = progress?.current ?? 0;
+  const percent = chunks.length > 0 ? Math.round((done / chunks.length) * 100) : 0;
+  // 限速下剩余时间的下限（缓存命中的片段会更快）
+  const remainingMinutes = requestsPerMinute > 0 ? Math.ceil((chunks.length - done) / requestsPerMinute) : 0;
+
+  const statusText = () => {
+    if (!progress) return '';
+    if (progress.phase === 'encoding') return '正在编码文件...';
+    if (progress.phase === 'waiting') return `限速等待中 · 第 ${progress.current + 1} / ${progress.total} 段`;
+    return `正在合成第 ${progress.current + 1} / ${progress.total} 段`;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4" onClick={handleClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-100 bg-slate-50/50">
+          <h3 className="font-bold text-slate-800">导出有声书</h3>
+          <p className="mt-1 text-xs text-slate-500">
+            {provider.name} · {voice} · 共 {chunks.length} 段{chapters.length > 0 ? ` · ${chapters.length} 个章节` : ''}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 text-xs">
+          {provider.kind !== 'audio' ? (
+            <div className="p-3 bg-amber-50 rounded-lg text-amber-800 border border-amber-100">
+              本地语音由浏览器直接发声，无法录制为文件。请先切换到 Gemini 或自建服务引擎。
+            </div>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <span className="text-slate-500">文件格式</span>
+                <div className="grid grid-cols-3 gap-2">
+                  {FORMAT_OPTIONS.map(option => (
+                    <button
+                      key={option.id}
+                      onClick={() => setFormat(option.id)}
+                      disabled={state === 'running'}
+                      className={`p-2 rounded-lg border text-left transition-colors disabled:opacity-60
+                        ${format === option.id ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                    >
+                      <div className="font-semibold">{option.name}</div>
+                      <div className="mt-0.5 text-[11px] text-slate-400">{option.hint}</div>
+                    </button>
+                  ))}
+                </div>
+                {format === 'm4b' && chapters.length === 0 && (
+                  <p className="text-slate-400">当前文档没有识别到标题，导出的文件不含章节。</p>
+                )}
+              </div>
+
+              <label className="flex items-center justify-between gap-2">
+                <span className="text-slate-500">每分钟最多请求</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={requestsPerMinute}
+                  onChange={(e) => setRequestsPerMinute(Math.max(0, Number(e.target.value) || 0))}
+                  disabled={state === 'running'}
+                  title="0 表示不限速"
+                  className="w-24 px-2 py-1 rounded-md border border-slate-200 outline-none focus:border-indigo-400 disabled:opacity-60"
+                />
+              </label>
+
+              {(state === 'running' || state === 'paused') && progress && (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-slate-500">
+                    <span>{statusText()}</span>
+                    <span>{percent}%</span>
+                  </div>
+                  <div className="w-full h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }}></div>
+                  </div>
+                  {state === 'running' && remainingMinutes > 1 && (
+                    <p className="text-slate-400">按当前限速，预计还需约 {remainingMinutes} 分钟。</p>
+                  )}
+                </div>
+              )}
+
+              {errorMsg && (
+                <div className="p-3 bg-red-50 rounded-lg text-red-700 border border-red-100">
+                  {errorMsg}
+                  <div className="mt-1 text-red-500">已完成的部分会保留，点击“继续导出”从第 {done + 1} 段重试。</div>
+                </div>
+              )}
+
+              {state === 'done' && result && (
+                <div className="p-3 bg-emerald-50 rounded-lg text-emerald-700 border border-emerald-100">
+                  导出完成（{(result.size / 1024 / 1024).toFixed(1)} MB）。如未自动下载，
+                  <a href={result.url} download={result.fileName} className="underline font-medium">点击这里保存</a>。
+                </div>
+              )}
+
+              {state === 'done' && result && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-slate-500">同步字幕 / 歌词</span>
+                    <select
+                      value={subtitleRate}
+                      onChange={(e) => setSubtitleRate(Number(e.target.value))}
+                      title="配合导出的音频文件请选 1x；配合倍速录制的音频选对应倍速"
+                      className="px-2 py-1 rounded-md border border-slate-200 outline-none focus:border-indigo-400"
+                    >
+                      {SUBTITLE_RATES.map(rate => (
+                        <option key={rate} value={rate}>时间轴 {rate}x</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    {SUBTITLE_OPTIONS.map(option => (
+                      <button
+                        key={option.id}
+                        onClick={() => handleExportSubtitles(option)}
+                        className="py-1.5 rounded-md border border-slate-200 text-slate-600 hover:border-indigo-300 hover:text-indigo-600"
+                      >
+                        {option.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex items-center justify-end gap-2 text-xs">
+          <button onClick={handleClose} className="px-3 py-1.5 rounded-md text-slate-500 hover:text-slate-800">
+            {state === 'done' ? '关闭' : '取消'}
+          </button>
+          {provider.kind === 'audio' && state === 'running' && (
+            <button onClick={() => abortRef.current?.abort()} className="px-3 py-1.5 rounded-md bg-slate-100 text-slate-700 hover:bg-slate-200">
+              暂停
+            </button>
+          )}
+          {provider.kind === 'audio' && state !== 'running' && (
+            <button
+              onClick={handleRun}
+              disabled={chunks.length === 0}
+              className="px-3 py-1.5 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {state === 'paused' && jobRef.current?.options.format === format ? '继续导出' : state === 'done' ? '重新导出' : '开始导出'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudiobookExport;
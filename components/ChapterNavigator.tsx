@@ -0,0 +1,68 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DocumentChapter } from '../types';
+
+interface ChapterNavigatorProps {
+  chapters: DocumentChapter[];
+  activeChapterIndex: number; // 当前朗读位置所在章节，-1 表示未开始
+  onSelectChapter: (chapter: DocumentChapter) => void;
+  disabled: boolean;
+}
+
+const ChapterNavigator: React.FC<ChapterNavigatorProps> = ({
+  chapters,
+  activeChapterIndex,
+  onSelectChapter,
+  disabled
+}) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const activeItemRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (activeItemRef.current) {
+      activeItemRef.current.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [activeChapterIndex]);
+
+  if (chapters.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 text-sm text-slate-600 flex flex-col shadow-sm overflow-hidden">
+      <button
+        onClick={() => setCollapsed(prev => !prev)}
+        className="p-4 border-b border-slate-100 bg-slate-50/50 font-bold text-slate-800 flex justify-between items-center"
+      >
+        <span>目录</span>
+        <span className="text-xs font-normal text-slate-500 bg-slate-200 px-2 py-0.5 rounded-full">
+          {collapsed ? '展开' : `${chapters.length} 章`}
+        </span>
+      </button>
+
+      {!collapsed && (
+        <div className="overflow-y-auto p-2 space-y-1 max-h-[240px]">
+          {chapters.map((chapter, idx) => {
+            const isActive = idx === activeChapterIndex;
+            return (
+              <button
+                key={`${chapter.offset}-${idx}`}
+                ref={isActive ? activeItemRef : null}
+                onClick={() => onSelectChapter(chapter)}
+                disabled={disabled}
+                style={{ paddingLeft: `${0.75 + chapter.level * 0.75}rem` }}
+                className={`w-full text-left pr-3 py-2 rounded-lg text-xs transition-all border truncate disabled:cursor-not-allowed
+                  ${isActive
+                    ? 'bg-indigo-50 border-indigo-200 text-indigo-900 font-semibold'
+                    : 'bg-white border-transparent hover:bg-slate-50 hover:border-slate-200 text-slate-600'
+                  }`}
+                title={chapter.title}
+              >
+                {chapter.title}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChapterNavigator;
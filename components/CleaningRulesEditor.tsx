@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CleaningRule } from '../types';
+import {
+  DEFAULT_CLEANING_RULES,
+  createCleaningRuleId,
+  exportCleaningRules,
+  importCleaningRules,
+  previewCleaningRules,
+  validateCleaningRule
+} from '../utils/cleaningRules';
+
+interface CleaningRulesEditorProps {
+  rules: CleaningRule[];
+  documentText: string; // 当前文档，用于预览规则效果
+  onSave: (rules: CleaningRule[]) => void;
+  onClose: () => void;
+}
+
+// 停止输入后再重新预览；整本书跑一遍所有正则较慢，不宜每次按键都算
+const PREVIEW_DELAY_MS = 300;
+
+// 换行在示例中显示为 ⏎，便于看出整行删除
+const showBreaks = (text: string) => text.replace(/\n/g, '⏎');
+
+// 文本清洗规则编辑器：修改先作用于草稿并实时预览，保存后对之后解析的文档生效
+const CleaningRulesEditor: React.FC<CleaningRulesEditorProps> = ({ rules, documentText, onSave, onClose }) => {
+  const [draft, setDraft] = useState<CleaningRule[]>(rules);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const errors = useMemo(() => new Map(draft.map(rule => [rule.id, validateCleaningRule(rule)])), [draft]);
+  const hasErrors = draft.some(rule => rule.enabled && errors.get(rule.id));
+
+  // 只用有效的规则预览，避免编辑到一半的正则让整个预览失效
+  const [previewRules, setPreviewRules] = useState<CleaningRule[]>(rules);
+  useEffect(() => {
+    const timer = setTimeout(() => setPreviewRules(draft.filter(rule => !errors.get(rule.id))), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft, errors]);
+
+  const preview = useMemo(() => previewCleaningRules(documentText, previewRules), [documentText, previewRules]);
+  const statsById = new Map(preview.stats.map(stat => [stat.id, stat]));
+
+  const updateRule = (id: string, changes: Partial<CleaningRule>) => {
+    setDraft(current => current.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    setDraft(current => {
+      const next = [...current];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const addRule = () => {
+    setDraft(current => [
+      ...current,
+      { id: createCleaningRuleId(), name: '新规则', pattern: '', flags: 'g', replacement: '', enabled: true }
+    ]);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportCleaningRules(draft)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'readnow-cleaning-rules.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+    try {
+      setDraft(importCleaningRules(await selected.text()));
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err.message || "导入失败");
+    }
+  };
+
+  const removedChars = documentText.length - preview.text.length;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex flex-wrap items-center justify-between gap-3">
+          <h3 className="font-bold text-slate-800">文本清洗规则</h3>
+          <div className="flex items-center gap-2 text-xs">
+            <button onClick={() => importInputRef.current?.click()} className="px-2 py-1 rounded-md border border-slate-200 text-slate-600 hover:bg-slate-100">
+              导入 JSON
+            </button>
+            <button onClick={handleExport} className="px-2 py-1 rounded-md border border-slate-200 text-slate-600 hover:bg-slate-100">
+              导出 JSON
+            </button>
+            <button
+              onClick={() => setDraft(DEFAULT_CLEANING_RULES)}
+              className="px-2 py-1 rounded-md border border-slate-200 text-slate-600 hover:bg-slate-100"
+            >
+              恢复默认
+            </button>
+            <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+          </div>
+        </div>
+
+        {importError && (
+          <div className="mx-4 mt-3 p-2 bg-red-50 text-red-600 rounded-lg border border-red-200 text-xs">{importError}</div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {draft.map((rule, index) => {
+            const error = errors.get(rule.id);
+            const stat = statsById.get(rule.id);
+            return (
+              <div key={rule.id} className={`rounded-lg border p-3 text-xs ${rule.enabled ? 'border-slate-200' : 'border-slate-100 opacity-60'}`}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                    className="accent-indigo-600"
+                  />
+                  {rule.builtin ? (
+                    <span className="font-medium text-slate-700">{rule.name}</span>
+                  ) : (
+                    <input
+                      value={rule.name}
+                      onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                      className="px-2 py-1 rounded-md border border-slate-200 outline-none focus:border-indigo-400"
+                      placeholder="规则名称"
+                    />
+                  )}
+                  {rule.builtin && <span className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-500">内置</span>}
+                  {rule.enabled && stat && (
+                    <span className={stat.count > 0 ? 'text-indigo-600' : 'text-slate-400'}>
+                      命中 {stat.count} 处
+                    </span>
+                  )}
+                  <div className="ml-auto flex items-center gap-1 text-slate-400">
+                    <button onClick={() => moveRule(index, -1)} disabled={index === 0} className="px-1 hover:text-slate-700 disabled:opacity-30">↑</button>
+                    <button onClick={() => moveRule(index, 1)} disabled={index === draft.length - 1} className="px-1 hover:text-slate-700 disabled:opacity-30">↓</button>
+                    {!rule.builtin && (
+                      <button
+                        onClick={() => setDraft(current => current.filter(item => item.id !== rule.id))}
+                        className="px-1 hover:text-red-600"
+                      >
+                        删除
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="mt-2 grid grid-cols-[1fr_4rem_1fr] gap-2 font-mono">
+                  <input
+                    value={rule.pattern}
+                    onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                    disabled={rule.builtin}
+                    placeholder="正则表达式"
+                    className="px-2 py-1 rounded-md border border-slate-200 outline-none focus:border-indigo-400 disabled:bg-slate-50 disabled:text-slate-500"
+                  />
+                  <input
+                    value={rule.flags}
+                    onChange={(e) => updateRule(rule.id, { flags: e.target.value })}
+                    disabled={rule.builtin}
+                    placeholder="标志"
+                    title="正则标志，如 g、i、m"
+                    className="px-2 py-1 rounded-md border border-slate-200 outline-none focus:border-indigo-400 disabled:bg-slate-50 disabled:text-slate-500"
+                  />
+                  <input
+                    value={rule.replacement}
+                    onChange={(e) => updateRule(rule.id, { replacement: e.target.value })}
+                    disabled={rule.builtin}
+                    placeholder="替换为（留空即删除）"
+                    className="px-2 py-1 rounded-md border border-slate-200 outline-none focus:border-indigo-400 disabled:bg-slate-50 disabled:text-slate-500"
+                  />
+                </div>
+
+                {error && <div className="mt-1 text-red-600">{error}</div>}
+
+                {rule.enabled && stat && stat.samples.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {stat.samples.map((sample, i) => (
+                      <li key={i} className="grid grid-cols-2 gap-2 text-slate-500">
+                        <span className="truncate bg-red-50 px-1.5 py-0.5 rounded" title={sample.before}>{showBreaks(sample.before)}</span>
+                        <span className="truncate bg-green-50 px-1.5 py-0.5 rounded" title={sample.after}>{showBreaks(sample.after)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+
+          <button
+            onClick={addRule}
+            className="w-full py-2 rounded-lg border border-dashed border-slate-300 text-xs text-slate-500 hover:border-indigo-300 hover:text-indigo-600"
+          >
+            + 添加规则
+          </button>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex flex-wrap items-center justify-between gap-3 text-xs">
+          <span className="text-slate-500">
+            {documentText
+              ? `对当前文档：共删减 ${removedChars} 字。保存后对之后解析的文档生效。`
+              : '打开文档后可在此预览规则效果。保存后对之后解析的文档生效。'}
+          </span>
+          <div className="flex items-center gap-2">
+            <button onClick={onClose} className="px-3 py-1.5 rounded-md text-slate-500 hover:text-slate-800">取消</button>
+            <button
+              onClick={() => onSave(draft)}
+              disabled={hasErrors}
+              className="px-3 py-1.5 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              保存规则
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CleaningRulesEditor;
@@ -1,49 +1,82 @@
 import React, { useRef, useState } from 'react';
+import PreprocessControls from './PreprocessControls';
+import { ImageOrder, isImageFile } from '../utils/imageUtils';
+import { OcrLanguage, PreprocessOptions } from '../types';
 
 interface FileSelectProps {
   onFileSelected: (file: File) => void;
+  onImagesSelected: (files: File[], order: ImageOrder) => void;
   onTextSubmit: (text: string) => void;
   isLoading: boolean;
   ocrEngine: 'gemini' | 'tesseract';
   onOcrEngineChange: (engine: 'gemini' | 'tesseract') => void;
+  ocrLanguage: OcrLanguage;
+  onOcrLanguageChange: (language: OcrLanguage) => void;
+  preprocessOptions: PreprocessOptions;
+  onPreprocessOptionsChange: (options: PreprocessOptions) => void;
+  docxTables: 'read' | 'skip';
+  onDocxTablesChange: (mode: 'read' | 'skip') => void;
 }
 
+const OCR_LANGUAGES: { id: OcrLanguage, name: string }[] = [
+  { id: 'chi_sim', name: '简体中文' },
+  { id: 'chi_tra', name: '繁體中文' },
+  { id: 'jpn', name: '日本語' },
+  { id: 'eng', name: 'English' },
+];
+
 const FileSelect: React.FC<FileSelectProps> = ({ 
   onFileSelected, 
+  onImagesSelected,
   onTextSubmit, 
   isLoading, 
   ocrEngine, 
-  onOcrEngineChange 
+  onOcrEngineChange,
+  ocrLanguage,
+  onOcrLanguageChange,
+  preprocessOptions,
+  onPreprocessOptionsChange,
+  docxTables,
+  onDocxTablesChange
 }) => {
   const [activeTab, setActiveTab] = useState<'upload' | 'paste'>('upload');
   const [inputText, setInputText] = useState('');
+  const [imageOrder, setImageOrder] = useState<ImageOrder>('name');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const file = e.target.files[0];
-      validateAndUpload(file);
+      validateAndUpload(Array.from(e.target.files));
     }
+    // 清空 value，保证再次选择同一批文件时仍能触发 onChange
+    e.target.value = '';
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     if (isLoading || activeTab !== 'upload') return;
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const file = e.dataTransfer.files[0];
-      validateAndUpload(file);
+      validateAndUpload(Array.from(e.dataTransfer.files));
     }
   };
 
-  const validateAndUpload = (file: File) => {
-    const validTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-    const validExts = ['.pdf', '.docx'];
+  const validateAndUpload = (files: File[]) => {
+    // 图片可以一次选择多张（如手机拍摄的多页书页），按页依次 OCR
+    const images = files.filter(isImageFile);
+    if (images.length > 0 && images.length === files.length) {
+      onImagesSelected(images, imageOrder);
+      return;
+    }
+
+    const file = files[0];
+    const validTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'application/epub+zip', 'text/plain', 'text/markdown', 'text/html'];
+    const validExts = ['.pdf', '.docx', '.epub', '.txt', '.md', '.markdown', '.html', '.htm'];
     const fileExt = file.name.substring(file.name.lastIndexOf('.')).toLowerCase();
 
     if (validTypes.includes(file.type) || validExts.includes(fileExt)) {
       onFileSelected(file);
     } else {
-      alert('仅支持 PDF 和 Word (.docx) 格式的文件');
+      alert('仅支持 PDF、Word (.docx)、EPUB、TXT、Markdown、HTML 格式的文件或图片');
     }
   };
 
@@ -95,7 +128,8 @@ const FileSelect: React.FC<FileSelectProps> = ({
           >
              <input 
               type="file" 
-              accept=".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document" 
+              accept=".pdf,.docx,.epub,.txt,.md,.markdown,.html,.htm,.jpg,.jpeg,.png,.heic,.heif,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/epub+zip,text/plain,text/markdown,text/html,image/*" 
+              multiple
               className="hidden" 
               ref={fileInputRef} 
               onChange={handleFileChange}
@@ -110,35 +144,77 @@ const FileSelect: React.FC<FileSelectProps> = ({
               </div>
               <div>
                 <p className="text-lg font-medium text-slate-700">点击或拖拽上传</p>
-                <p className="text-sm text-slate-500 mt-2">支持 PDF 和 Word (.docx)</p>
+                <p className="text-sm text-slate-500 mt-2">支持 PDF、Word (.docx)、EPUB、TXT、Markdown 和 HTML</p>
+                <p className="text-xs text-slate-400 mt-1">也可一次选择多张书页照片 (JPG/PNG/HEIC)</p>
               </div>
             </div>
 
              {/* OCR 引擎选择器 - 仅在上传模式显示 */}
             <div className="absolute bottom-6 left-0 right-0 flex justify-center z-10" onClick={(e) => e.stopPropagation()}>
-               <div className="inline-flex bg-slate-100 p-1 rounded-lg border border-slate-200 shadow-sm">
-                  <button
-                      type="button"
-                      onClick={(e) => handleEngineClick(e, 'tesseract')}
-                      className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${
-                          ocrEngine === 'tesseract' 
-                          ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-slate-200' 
-                          : 'text-slate-500 hover:text-slate-700'
-                      }`}
+               <div className="inline-flex flex-wrap items-center justify-center gap-2">
+                  <div className="inline-flex bg-slate-100 p-1 rounded-lg border border-slate-200 shadow-sm">
+                     <button
+                         type="button"
+                         onClick={(e) => handleEngineClick(e, 'tesseract')}
+                         className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${
+                             ocrEngine === 'tesseract' 
+                             ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-slate-200' 
+                             : 'text-slate-500 hover:text-slate-700'
+                         }`}
+                     >
+                         本地 OCR (免费)
+                     </button>
+                     <button
+                         type="button"
+                         onClick={(e) => handleEngineClick(e, 'gemini')}
+                         className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${
+                             ocrEngine === 'gemini' 
+                             ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-slate-200' 
+                             : 'text-slate-500 hover:text-slate-700'
+                         }`}
+                     >
+                         Gemini OCR (高精)
+                     </button>
+                  </div>
+                  <select
+                      value={ocrLanguage}
+                      onChange={(e) => onOcrLanguageChange(e.target.value as OcrLanguage)}
+                      disabled={isLoading}
+                      title="OCR 识别语言"
+                      className="px-2 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 rounded-lg border border-slate-200 shadow-sm outline-none"
+                  >
+                      {OCR_LANGUAGES.map(lang => (
+                          <option key={lang.id} value={lang.id}>{lang.name}</option>
+                      ))}
+                  </select>
+                  <select
+                      value={imageOrder}
+                      onChange={(e) => setImageOrder(e.target.value as ImageOrder)}
+                      disabled={isLoading}
+                      title="多张图片的页面顺序"
+                      className="px-2 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 rounded-lg border border-slate-200 shadow-sm outline-none"
                   >
-                      本地 OCR (免费)
-                  </button>
-                  <button
-                      type="button"
-                      onClick={(e) => handleEngineClick(e, 'gemini')}
-                      className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${
-                          ocrEngine === 'gemini' 
-                          ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-slate-200' 
-                          : 'text-slate-500 hover:text-slate-700'
-                      }`}
+                      <option value="name">图片按文件名</option>
+                      <option value="time">图片按拍摄时间</option>
+                  </select>
+                  <select
+                      value={docxTables}
+                      onChange={(e) => onDocxTablesChange(e.target.value as 'read' | 'skip')}
+                      disabled={isLoading}
+                      title="Word 文档中的表格"
+                      className="px-2 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 rounded-lg border border-slate-200 shadow-sm outline-none"
                   >
-                      Gemini OCR (高精)
-                  </button>
+                      <option value="read">表格逐行朗读</option>
+                      <option value="skip">跳过表格</option>
+                  </select>
+                  {/* 图像预处理仅对本地 OCR 生效 */}
+                  {ocrEngine === 'tesseract' && (
+                      <PreprocessControls
+                          options={preprocessOptions}
+                          onChange={onPreprocessOptionsChange}
+                          disabled={isLoading}
+                      />
+                  )}
                </div>
             </div>
           </div>
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { HttpTtsConfig, TtsAudioFormat } from '../types';
+
+interface HttpTtsSettingsProps {
+  config: HttpTtsConfig;
+  onChange: (config: HttpTtsConfig) => void;
+  disabled?: boolean;
+}
+
+const FORMAT_OPTIONS: { id: TtsAudioFormat; name: string }[] = [
+  { id: 'mp3', name: 'MP3' },
+  { id: 'wav', name: 'WAV' },
+  { id: 'pcm', name: 'PCM (16-bit)' },
+];
+
+const inputClass = 'w-full px-2 py-1.5 bg-white border border-slate-200 rounded-md text-xs text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60';
+
+// 自建 TTS 服务设置（OpenAI 兼容的 /v1/audio/speech）
+const HttpTtsSettings: React.FC<HttpTtsSettingsProps> = ({ config, onChange, disabled }) => {
+  // 声音列表按逗号分隔编辑，保留输入中的原文，避免输入逗号时被立即吞掉
+  const [voicesText, setVoicesText] = useState(config.voices.join(', '));
+
+  const update = (changes: Partial<HttpTtsConfig>) => onChange({ ...config, ...changes });
+
+  return (
+    <div className="p-3 bg-slate-50 rounded-lg border border-slate-200 space-y-2 text-xs">
+      <label className="block">
+        <span className="text-slate-500">服务地址</span>
+        <input
+          value={config.baseUrl}
+          onChange={(e) => update({ baseUrl: e.target.value })}
+          disabled={disabled}
+          placeholder="http://localhost:8880"
+          className={inputClass}
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block">
+          <span className="text-slate-500">模型</span>
+          <input value={config.model} onChange={(e) => update({ model: e.target.value })} disabled={disabled} className={inputClass} />
+        </label>
+        <label className="block">
+          <span className="text-slate-500">API Key (可选)</span>
+          <input
+            type="password"
+            value={config.apiKey}
+            onChange={(e) => update({ apiKey: e.target.value })}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <label className="block">
+        <span className="text-slate-500">声音 (逗号分隔)</span>
+        <input
+          value={voicesText}
+          onChange={(e) => {
+            setVoicesText(e.target.value);
+            update({ voices: e.target.value.split(/[,，]/).map(v => v.trim()).filter(Boolean) });
+          }}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+      <div className="grid grid-cols-3 gap-2">
+        <label className="block">
+          <span className="text-slate-500">音频格式</span>
+          <select
+            value={config.format}
+            onChange={(e) => update({ format: e.target.value as TtsAudioFormat })}
+            disabled={disabled}
+            className={inputClass}
+          >
+            {FORMAT_OPTIONS.map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-slate-500">采样率</span>
+          <input
+            type="number"
+            value={config.sampleRate}
+            onChange={(e) => update({ sampleRate: Number(e.target.value) || 24000 })}
+            disabled={disabled || config.format !== 'pcm'}
+            title="仅 PCM 格式需要"
+            className={inputClass}
+          />
+        </label>
+        <label className="block">
+          <span className="text-slate-500">每段字数</span>
+          <input
+            type="number"
+            min={50}
+            value={config.maxChunkChars}
+            onChange={(e) => update({ maxChunkChars: Math.max(50, Number(e.target.value) || 500) })}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default HttpTtsSettings;
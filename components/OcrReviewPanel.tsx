@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { PageReport, PageSource } from '../types';
+
+interface OcrReviewPanelProps {
+  pages: PageReport[];
+  ocrEngine: 'gemini' | 'tesseract'; // 解析时使用的 OCR 引擎
+  reocrPage: number | null; // 正在重新识别的页码
+  error: string | null;
+  onReocr: (report: PageReport, engine: 'gemini' | 'tesseract') => void;
+  onPreview: (report: PageReport) => void; // 打开预处理前后对比
+  disabled: boolean;
+}
+
+// Tesseract 置信度低于此值的页面需要复核
+const LOW_CONFIDENCE = 60;
+
+const SOURCE_LABELS: Record<PageSource, string> = {
+  native: '原生文字',
+  tesseract: '本地 OCR',
+  gemini: 'Gemini',
+  failed: '识别失败'
+};
+
+const ENGINE_LABELS: Record<'gemini' | 'tesseract', string> = {
+  gemini: 'Gemini',
+  tesseract: '本地 OCR'
+};
+
+const needsReview = (report: PageReport) =>
+  report.source === 'failed' ||
+  (report.source !== 'native' && report.text.length === 0) ||
+  (report.source === 'tesseract' && report.confidence !== undefined && report.confidence < LOW_CONFIDENCE);
+
+const describeIssue = (report: PageReport) => {
+  if (report.source === 'failed') return '识别失败';
+  if (report.text.length === 0) return '空白页';
+  return `置信度 ${Math.round(report.confidence ?? 0)}%`;
+};
+
+const OcrReviewPanel: React.FC<OcrReviewPanelProps> = ({
+  pages,
+  ocrEngine,
+  reocrPage,
+  error,
+  onReocr,
+  onPreview,
+  disabled
+}) => {
+  const [collapsed, setCollapsed] = useState(false);
+
+  const counts = useMemo(() => {
+    const result: Partial<Record<PageSource, number>> = {};
+    pages.forEach(report => { result[report.source] = (result[report.source] || 0) + 1; });
+    return result;
+  }, [pages]);
+
+  const flagged = useMemo(() => pages.filter(needsReview), [pages]);
+
+  // 全部是原生文字的文档无需复核
+  if (pages.length === 0 || pages.every(report => report.source === 'native')) return null;
+
+  // 换用另一个引擎重新识别；失败页不知道结果来自哪个引擎，以解析时的引擎为准
+  const otherEngine = (report: PageReport): 'gemini' | 'tesseract' => {
+    const used = report.source === 'gemini' || report.source === 'tesseract' ? report.source : ocrEngine;
+    return used === 'gemini' ? 'tesseract' : 'gemini';
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 text-sm text-slate-600 flex flex-col shadow-sm overflow-hidden">
+      <button
+        onClick={() => setCollapsed(prev => !prev)}
+        className="p-4 border-b border-slate-100 bg-slate-50/50 font-bold text-slate-800 flex justify-between items-center"
+      >
+        <span>识别报告</span>
+        <span className={`text-xs font-normal px-2 py-0.5 rounded-full ${flagged.length > 0 ? 'bg-amber-100 text-amber-700' : 'bg-slate-200 text-slate-500'}`}>
+          {flagged.length > 0 ? `${flagged.length} 页待复核` : '全部正常'}
+        </span>
+      </button>
+
+      {!collapsed && (
+        <div className="p-3 space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            {(Object.keys(SOURCE_LABELS) as PageSource[]).filter(source => counts[source]).map(source => (
+              <span
+                key={source}
+                className={`px-2 py-0.5 rounded-full border ${source === 'failed' ? 'bg-red-50 border-red-200 text-red-600' : 'bg-slate-50 border-slate-200 text-slate-600'}`}
+              >
+                {SOURCE_LABELS[source]} {counts[source]} 页
+              </span>
+            ))}
+            <button
+              onClick={() => onPreview(flagged[0] || pages.find(report => report.source !== 'native')!)}
+              disabled={disabled}
+              className="ml-auto text-indigo-600 hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              预处理预览
+            </button>
+          </div>
+
+          {error && (
+            <div className="p-2 bg-red-50 text-red-600 rounded-lg border border-red-200 text-xs">
+              {error}
+            </div>
+          )}
+
+          {flagged.length > 0 && (
+            <div className="overflow-y-auto space-y-1 max-h-[240px]">
+              {flagged.map(report => {
+                const engine = otherEngine(report);
+                const isBusy = reocrPage === report.page;
+                return (
+                  <div
+                    key={report.page}
+                    className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg border border-slate-100 bg-slate-50/50 text-xs"
+                  >
+                    <div className="min-w-0">
+                      <div className="font-semibold text-slate-700 truncate" title={report.label}>{report.label}</div>
+                      <div className={report.source === 'failed' ? 'text-red-500' : 'text-amber-600'}>
+                        {describeIssue(report)}
+                      </div>
+                    </div>
+                    <div className="flex-shrink-0 flex items-center gap-1">
+                      <button
+                        onClick={() => onPreview(report)}
+                        disabled={disabled}
+                        className="px-2 py-1 rounded-md text-slate-500 hover:text-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        预览
+                      </button>
+                      <button
+                        onClick={() => onReocr(report, engine)}
+                        disabled={disabled || reocrPage !== null}
+                        className="px-2 py-1 rounded-md bg-white border border-indigo-200 text-indigo-600 hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isBusy ? '识别中...' : `用 ${ENGINE_LABELS[engine]} 重新识别`}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OcrReviewPanel;
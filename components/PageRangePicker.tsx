@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { PageRange } from '../types';
+
+interface PageRangePickerProps {
+  fileName: string;
+  numPages: number;
+  onConfirm: (range: PageRange) => void;
+  onCancel: () => void;
+}
+
+const PageRangePicker: React.FC<PageRangePickerProps> = ({
+  fileName,
+  numPages,
+  onConfirm,
+  onCancel
+}) => {
+  const [start, setStart] = useState<string>('1');
+  const [end, setEnd] = useState<string>(String(numPages));
+
+  const startPage = parseInt(start, 10);
+  const endPage = parseInt(end, 10);
+  const isValid = Number.isInteger(startPage) && Number.isInteger(endPage)
+    && startPage >= 1 && endPage <= numPages && startPage <= endPage;
+
+  const handleConfirm = () => {
+    if (!isValid) return;
+    onConfirm({ start: startPage, end: endPage });
+  };
+
+  const handleSelectAll = () => {
+    setStart('1');
+    setEnd(String(numPages));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 flex flex-col gap-5">
+      <div>
+        <h3 className="font-bold text-slate-800 truncate" title={fileName}>{fileName}</h3>
+        <p className="text-sm text-slate-500 mt-1">共 {numPages} 页，请选择需要朗读的页码范围</p>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <label className="flex-1">
+          <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider block mb-1">起始页</span>
+          <input
+            type="number"
+            min={1}
+            max={numPages}
+            value={start}
+            onChange={(e) => setStart(e.target.value)}
+            className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+        </label>
+        <span className="text-slate-400 mt-5">—</span>
+        <label className="flex-1">
+          <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider block mb-1">结束页</span>
+          <input
+            type="number"
+            min={1}
+            max={numPages}
+            value={end}
+            onChange={(e) => setEnd(e.target.value)}
+            className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+        </label>
+        <button
+          onClick={handleSelectAll}
+          className="mt-5 px-3 py-2.5 text-xs font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors whitespace-nowrap"
+        >
+          全部页面
+        </button>
+      </div>
+
+      {!isValid && (
+        <p className="text-xs text-red-500">页码范围无效，应在 1 - {numPages} 之间且起始页不大于结束页。</p>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={handleConfirm}
+          disabled={!isValid}
+          className={`flex-1 py-3 rounded-lg font-semibold text-white transition-all shadow-sm
+            ${isValid ? 'bg-indigo-600 hover:bg-indigo-700 hover:shadow-md' : 'bg-slate-300 cursor-not-allowed'}`}
+        >
+          {isValid ? `解析第 ${startPage} - ${endPage} 页` : '开始解析'}
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-4 py-3 text-slate-500 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+        >
+          重新选择
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PageRangePicker;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { PreprocessOptions } from '../types';
+
+interface PreprocessControlsProps {
+  options: PreprocessOptions;
+  onChange: (options: PreprocessOptions) => void;
+  disabled?: boolean;
+}
+
+const TOGGLES: { key: 'contrast' | 'deskew' | 'cropBorders'; label: string; title: string }[] = [
+  { key: 'contrast', label: '增强对比', title: '灰度化并提高对比度' },
+  { key: 'deskew', label: '自动纠偏', title: '检测页面倾斜并旋转摆正' },
+  { key: 'cropBorders', label: '裁掉黑边', title: '去除拍照时页面外的深色边框' },
+];
+
+const BINARIZATION_OPTIONS: { id: PreprocessOptions['binarization']; name: string }[] = [
+  { id: 'adaptive', name: '自适应二值化' },
+  { id: 'otsu', name: 'Otsu 二值化' },
+  { id: 'none', name: '不二值化' },
+];
+
+// 本地 OCR 图像预处理开关
+const PreprocessControls: React.FC<PreprocessControlsProps> = ({ options, onChange, disabled }) => {
+  return (
+    <div className="inline-flex flex-wrap items-center justify-center gap-2 text-xs">
+      {TOGGLES.map(toggle => (
+        <label
+          key={toggle.key}
+          title={toggle.title}
+          className={`inline-flex items-center gap-1 px-2 py-1.5 rounded-lg border shadow-sm cursor-pointer select-none transition-colors
+            ${options[toggle.key] ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-slate-100 border-slate-200 text-slate-500'}`}
+        >
+          <input
+            type="checkbox"
+            checked={options[toggle.key]}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...options, [toggle.key]: e.target.checked })}
+            className="accent-indigo-600"
+          />
+          {toggle.label}
+        </label>
+      ))}
+      <select
+        value={options.binarization}
+        onChange={(e) => onChange({ ...options, binarization: e.target.value as PreprocessOptions['binarization'] })}
+        disabled={disabled}
+        title="二值化方式：自适应可消除阴影与光照不均"
+        className="px-2 py-1.5 font-medium text-slate-600 bg-slate-100 rounded-lg border border-slate-200 shadow-sm outline-none"
+      >
+        {BINARIZATION_OPTIONS.map(option => (
+          <option key={option.id} value={option.id}>{option.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default PreprocessControls;
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import PreprocessControls from './PreprocessControls';
+import { PageReport, PreprocessOptions } from '../types';
+
+interface PreprocessPreviewProps {
+  pages: PageReport[]; // 可预览的页面（经过 OCR 的页面）
+  initialPage: number;
+  options: PreprocessOptions;
+  onOptionsChange: (options: PreprocessOptions) => void;
+  loadPreview: (report: PageReport, options: PreprocessOptions) => Promise<{ before: string; after: string }>;
+  onReocr: (report: PageReport) => void; // 用当前设置和本地 OCR 重新识别
+  reocrPage: number | null;
+  onClose: () => void;
+}
+
+// 预处理前后对比：逐页调整设置，效果满意后可直接重新识别该页
+const PreprocessPreview: React.FC<PreprocessPreviewProps> = ({
+  pages,
+  initialPage,
+  options,
+  onOptionsChange,
+  loadPreview,
+  onReocr,
+  reocrPage,
+  onClose
+}) => {
+  const [pageNumber, setPageNumber] = useState(initialPage);
+  const [images, setImages] = useState<{ before: string; after: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const report = pages.find(item => item.page === pageNumber) || pages[0];
+
+  useEffect(() => {
+    if (!report) return;
+    // 切换页面或设置时，丢弃尚未返回的旧预览
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    loadPreview(report, options)
+      .then(result => { if (!cancelled) setImages(result); })
+      .catch(err => { if (!cancelled) setError(err.message || "预览生成失败"); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [report?.page, options]);
+
+  if (!report) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <h3 className="font-bold text-slate-800">预处理预览</h3>
+            <select
+              value={report.page}
+              onChange={(e) => setPageNumber(Number(e.target.value))}
+              className="px-2 py-1 text-xs text-slate-600 bg-white rounded-md border border-slate-200 outline-none"
+            >
+              {pages.map(item => (
+                <option key={item.page} value={item.page}>{item.label}</option>
+              ))}
+            </select>
+          </div>
+          <button onClick={onClose} className="text-sm text-slate-500 hover:text-slate-800">关闭</button>
+        </div>
+
+        <div className="p-4 border-b border-slate-100 flex flex-wrap items-center justify-between gap-3">
+          <PreprocessControls options={options} onChange={onOptionsChange} />
+          <button
+            onClick={() => onReocr(report)}
+            disabled={reocrPage !== null}
+            className="px-3 py-1.5 text-xs rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {reocrPage === report.page ? '识别中...' : '用当前设置重新识别此页'}
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4">
+          {error ? (
+            <div className="p-3 bg-red-50 text-red-600 rounded-lg border border-red-200 text-sm text-center">{error}</div>
+          ) : (
+            <div className={`grid grid-cols-1 md:grid-cols-2 gap-4 transition-opacity ${isLoading ? 'opacity-50' : ''}`}>
+              {(['before', 'after'] as const).map(side => (
+                <figure key={side} className="flex flex-col gap-2">
+                  <figcaption className="text-xs font-semibold text-slate-500">{side === 'before' ? '处理前' : '处理后'}</figcaption>
+                  {images ? (
+                    <img
+                      src={`data:image/jpeg;base64,${images[side]}`}
+                      alt={side === 'before' ? '处理前' : '处理后'}
+                      className="w-full border border-slate-200 rounded-lg bg-slate-50"
+                    />
+                  ) : (
+                    <div className="aspect-[3/4] flex items-center justify-center border border-slate-200 rounded-lg bg-slate-50 text-xs text-slate-400">
+                      正在生成预览...
+                    </div>
+                  )}
+                </figure>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreprocessPreview;
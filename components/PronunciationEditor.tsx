@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { PronunciationEntry } from '../types';
+import { countPronunciationHits, createPronunciationEntryId, isPinyinReading, resolveReading } from '../utils/pronunciation';
+
+interface PronunciationEditorProps {
+  entries: PronunciationEntry[];
+  documentText: string; // 当前文档，用于统计词条出现次数
+  onSave: (entries: PronunciationEntry[]) => void;
+  onClose: () => void;
+}
+
+// 发音词典编辑器：只改变发给 TTS 的文字，文档显示不变
+const PronunciationEditor: React.FC<PronunciationEditorProps> = ({ entries, documentText, onSave, onClose }) => {
+  const [draft, setDraft] = useState<PronunciationEntry[]>(entries);
+
+  const hits = useMemo(() => countPronunciationHits(documentText, draft), [documentText, draft]);
+
+  const updateEntry = (id: string, changes: Partial<PronunciationEntry>) => {
+    setDraft(current => current.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+  };
+
+  const addEntry = () => {
+    setDraft(current => [...current, { id: createPronunciationEntryId(), term: '', reading: '', enabled: true }]);
+  };
+
+  // 空词条不保存
+  const handleSave = () => onSave(draft.filter(entry => entry.term.trim() && entry.reading.trim()));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-100 bg-slate-50/50">
+          <h3 className="font-bold text-slate-800">发音词典</h3>
+          <p className="mt-1 text-xs text-slate-500">
+            读音可填拼音（如 <code>hang2 zhang3</code> 或 <code>háng zhǎng</code>），也可填替代写法（如 <code>A P I</code>）。
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2 text-xs">
+          {draft.length === 0 && (
+            <div className="py-6 text-center text-slate-400">还没有词条。</div>
+          )}
+          {draft.map(entry => {
+            const reading = entry.reading.trim();
+            const count = hits.get(entry.term) || 0;
+            return (
+              <div key={entry.id} className={`flex flex-wrap items-center gap-2 ${entry.enabled ? '' : 'opacity-60'}`}>
+                <input
+                  type="checkbox"
+                  checked={entry.enabled}
+                  onChange={(e) => updateEntry(entry.id, { enabled: e.target.checked })}
+                  className="accent-indigo-600"
+                />
+                <input
+                  value={entry.term}
+                  onChange={(e) => updateEntry(entry.id, { term: e.target.value })}
+                  placeholder="原文，如 行长"
+                  className="w-32 px-2 py-1 rounded-md border border-slate-200 outline-none focus:border-indigo-400"
+                />
+                <span className="text-slate-400">→</span>
+                <input
+                  value={entry.reading}
+                  onChange={(e) => updateEntry(entry.id, { reading: e.target.value })}
+                  placeholder="读音"
+                  className="flex-1 min-w-[8rem] px-2 py-1 rounded-md border border-slate-200 outline-none focus:border-indigo-400"
+                />
+                <span className="w-28 truncate text-slate-400" title={reading ? resolveReading(reading) : ''}>
+                  {reading && isPinyinReading(reading) ? `读作 ${resolveReading(reading)}` : ''}
+                </span>
+                <span className={`w-14 text-right ${count > 0 ? 'text-indigo-600' : 'text-slate-300'}`}>
+                  {documentText ? `${count} 处` : ''}
+                </span>
+                <button
+                  onClick={() => setDraft(current => current.filter(item => item.id !== entry.id))}
+                  className="px-1 text-slate-400 hover:text-red-600"
+                >
+                  删除
+                </button>
+              </div>
+            );
+          })}
+
+          <button
+            onClick={addEntry}
+            className="w-full mt-2 py-2 rounded-lg border border-dashed border-slate-300 text-slate-500 hover:border-indigo-300 hover:text-indigo-600"
+          >
+            + 添加词条
+          </button>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex items-center justify-end gap-2 text-xs">
+          <button onClick={onClose} className="px-3 py-1.5 rounded-md text-slate-500 hover:text-slate-800">取消</button>
+          <button onClick={handleSave} className="px-3 py-1.5 rounded-md bg-indigo-600 text-white hover:bg-indigo-700">
+            保存词典
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PronunciationEditor;
@@ -12,4 +12,13 @@ root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+// 生产环境注册离线缓存 (public/sw.js)，使本地 OCR 资源在断网时仍可用
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(err => {
+      console.warn('Service Worker 注册失败:', err);
+    });
+  });
+}
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { AudioCacheUsage, SynthesizedAudio } from '../types';
+
+// === 合成音频缓存 ===
+// 在线 TTS 按次计费，重听同一章节不应重新合成。合成结果按「模型 + 声音 + 朗读文本」的哈希存入 IndexedDB，
+// 跨会话复用；总大小超过配额时按最近使用时间淘汰最旧的片段（LRU）
+// 音频与元数据分两个 store 存放：统计用量、挑选淘汰对象时只读元数据，不必把音频读进内存
+
+const DB_NAME = 'readnow-audio-cache';
+const AUDIO_STORE = 'audio';
+const META_STORE = 'meta';
+const QUOTA_STORAGE_KEY = 'audio_cache_quota';
+
+const MB = 1024 * 1024;
+export const DEFAULT_AUDIO_CACHE_QUOTA = 200 * MB;
+
+interface CacheMeta {
+  key: string;
+  size: number;
+  lastAccess: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(AUDIO_STORE);
+        db.createObjectStore(META_STORE, { keyPath: 'key' }).createIndex('lastAccess', 'lastAccess');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(err => {
+      // 隐私模式等环境下 IndexedDB 不可用，允许下次重试
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+// 在一个事务内执行操作，事务提交后返回结果
+const runTransaction = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  action: (tx: IDBTransaction, done: (result: T) => void) => void
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    let result: T;
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+    action(tx, value => { result = value; });
+  });
+};
+
+// 遍历元数据（按最近使用时间从旧到新）
+const forEachMeta = (tx: IDBTransaction, visit: (meta: CacheMeta) => void, onDone: () => void) => {
+  const request = tx.objectStore(META_STORE).index('lastAccess').openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) {
+      onDone();
+      return;
+    }
+    visit(cursor.value as CacheMeta);
+    cursor.continue();
+  };
+};
+
+// 缓存键：模型 + 声音 + 实际发给 TTS 的文本（已应用发音词典与读法规范化）的 SHA-256
+// 非安全上下文（如局域网 http 访问）没有 crypto.subtle，此时返回 null，不使用缓存
+export const getAudioCacheKey = async (model: string, voice: string, text: string): Promise<string | null> => {
+  try {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${model}\n${voice}\n${text}`));
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+  } catch (e) {
+    console.warn("无法计算音频缓存键，本次不使用音频缓存", e);
+    return null;
+  }
+};
+
+export const loadAudioCacheQuota = (): number => {
+  const saved = Number(localStorage.getItem(QUOTA_STORAGE_KEY));
+  return saved > 0 ? saved : DEFAULT_AUDIO_CACHE_QUOTA;
+};
+
+export const saveAudioCacheQuota = (quotaBytes: number) => {
+  localStorage.setItem(QUOTA_STORAGE_KEY, String(quotaBytes));
+};
+
+// 从最久未使用的片段开始删除，直到总大小不超过配额
+export const enforceAudioCacheQuota = (quotaBytes: number = loadAudioCacheQuota()): Promise<number> =>
+  runTransaction<number>([AUDIO_STORE, META_STORE], 'readwrite', (tx, done) => {
+    const entries: CacheMeta[] = [];
+    forEachMeta(tx, meta => { entries.push(meta); }, () => {
+      let total = entries.reduce((sum, meta) => sum + meta.size, 0);
+      let evicted = 0;
+      for (const meta of entries) {
+        if (total <= quotaBytes) break;
+        tx.objectStore(AUDIO_STORE).delete(meta.key);
+        tx.objectStore(META_STORE).delete(meta.key);
+        total -= meta.size;
+        evicted++;
+      }
+      if (evicted > 0) console.log(`音频缓存超出配额，淘汰 ${evicted} 段`);
+      done(evicted);
+    });
+  });
+
+const readCachedAudio = (cacheKey: string): Promise<SynthesizedAudio | undefined> =>
+  runTransaction<SynthesizedAudio | undefined>([AUDIO_STORE, META_STORE], 'readwrite', (tx, done) => {
+    const request = tx.objectStore(AUDIO_STORE).get(cacheKey);
+    request.onsuccess = () => {
+      const audio = request.result as SynthesizedAudio | undefined;
+      done(audio);
+      // 命中即刷新最近使用时间
+      if (audio) tx.objectStore(META_STORE).put({ key: cacheKey, size: audio.data.byteLength, lastAccess: Date.now() });
+    };
+  });
+
+const writeCachedAudio = (cacheKey: string, audio: SynthesizedAudio): Promise<void> =>
+  runTransaction<void>([AUDIO_STORE, META_STORE], 'readwrite', (tx, done) => {
+    tx.objectStore(AUDIO_STORE).put(audio, cacheKey);
+    tx.objectStore(META_STORE).put({ key: cacheKey, size: audio.data.byteLength, lastAccess: Date.now() });
+    done(undefined);
+  });
+
+// 先查缓存，未命中时合成并写入缓存，随后按配额淘汰
+// 缓存读写出错只影响费用与速度，不影响朗读本身
+export const withAudioCache = async (cacheKey: string | null, synthesize: () => Promise<SynthesizedAudio>): Promise<SynthesizedAudio> => {
+  if (!cacheKey) return synthesize();
+
+  try {
+    const cached = await readCachedAudio(cacheKey);
+    if (cached) return cached;
+  } catch (e) {
+    console.warn("读取音频缓存失败", e);
+  }
+
+  const audio = await synthesize();
+
+  try {
+    await writeCachedAudio(cacheKey, audio);
+    await enforceAudioCacheQuota();
+  } catch (e) {
+    console.warn("写入音频缓存失败", e);
+  }
+  return audio;
+};
+
+export const getAudioCacheUsage = async (): Promise<AudioCacheUsage> => {
+  const quotaBytes = loadAudioCacheQuota();
+  try {
+    return await runTransaction<AudioCacheUsage>([META_STORE], 'readonly', (tx, done) => {
+      let entries = 0;
+      let bytes = 0;
+      forEachMeta(tx, meta => {
+        entries++;
+        bytes += meta.size;
+      }, () => done({ entries, bytes, quotaBytes }));
+    });
+  } catch (e) {
+    console.warn("读取音频缓存用量失败", e);
+    return { entries: 0, bytes: 0, quotaBytes };
+  }
+};
+
+export const clearAudioCache = (): Promise<void> =>
+  runTransaction<void>([AUDIO_STORE, META_STORE], 'readwrite', (tx, done) => {
+    tx.objectStore(AUDIO_STORE).clear();
+    tx.objectStore(META_STORE).clear();
+    done(undefined);
+  });
@@ -0,0 +1,126 @@
+import { AudioTtsProvider } from './ttsProviders';
+import { getAudioCacheKey, withAudioCache } from './audioCache';
+import { AudiobookExportProgress, AudiobookFormat } from '../types';
+import { decodeSynthesizedAudio } from '../utils/audioUtils';
+import { AudiobookEncoder, createAudiobookEncoder } from '../utils/audiobookEncoders';
+import { sleep } from '../utils/asyncUtils';
+import { ChunkTiming } from '../utils/subtitles';
+
+// === 有声书导出 ===
+// 逐段合成整份文档并编码为一个音频文件
+// - 限速：两次真正发出的合成请求之间至少间隔 60 / requestsPerMinute 秒，命中音频缓存的片段不计
+// - 续传：任务对象记录已完成到哪一段，失败或取消后再次运行即从失败的片段继续；
+//   已合成的片段也在音频缓存中，刷新页面后重新导出同样不会重复计费
+
+export const EXPORT_SAMPLE_RATE = 24000;
+
+export interface AudiobookChapterPoint {
+  title: string;
+  chunkIndex: number;
+  position: number; // 章节在片段内的相对位置 (0 ~ 1)，按字数估算
+}
+
+export interface AudiobookExportOptions {
+  chunks: string[];
+  chapters: AudiobookChapterPoint[];
+  provider: AudioTtsProvider;
+  voice: string;
+  format: AudiobookFormat;
+  requestsPerMinute: number;
+  title: string;
+  prepareText: (chunk: string) => string; // 原文片段 -> 发给 TTS 的文字
+}
+
+export interface AudiobookExportJob {
+  options: AudiobookExportOptions;
+  nextIndex: number;
+  encoder: AudiobookEncoder | null;
+  chunkStarts: number[]; // 每段在成品中的起始采样位置
+  totalFrames: number;
+  lastRequestAt: number;
+}
+
+export const createAudiobookExportJob = (options: AudiobookExportOptions): AudiobookExportJob => ({
+  options,
+  nextIndex: 0,
+  encoder: null,
+  chunkStarts: [],
+  totalFrames: 0,
+  lastRequestAt: 0
+});
+
+// 统一为单声道、导出采样率（自建服务可能返回其它采样率或双声道）
+const toExportSamples = async (buffer: AudioBuffer): Promise<Float32Array<ArrayBuffer>> => {
+  if (buffer.sampleRate === EXPORT_SAMPLE_RATE && buffer.numberOfChannels === 1) {
+    return buffer.getChannelData(0);
+  }
+  const length = Math.ceil(buffer.duration * EXPORT_SAMPLE_RATE);
+  const ctx = new OfflineAudioContext(1, Math.max(1, length), EXPORT_SAMPLE_RATE);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(ctx.destination);
+  source.start();
+  return (await ctx.startRendering()).getChannelData(0);
+};
+
+// 各片段在成品中的起点与时长（秒），用于生成字幕
+export const getChunkTimings = (job: AudiobookExportJob): ChunkTiming[] =>
+  job.chunkStarts.map((start, i) => ({
+    start: start / EXPORT_SAMPLE_RATE,
+    duration: ((job.chunkStarts[i + 1] ?? job.totalFrames) - start) / EXPORT_SAMPLE_RATE
+  }));
+
+// 章节时间：片段起点 + 片段时长 × 片段内位置
+const resolveChapterMarks = (job: AudiobookExportJob) =>
+  job.options.chapters.map(chapter => {
+    const start = job.chunkStarts[chapter.chunkIndex];
+    const end = job.chunkStarts[chapter.chunkIndex + 1] ?? job.totalFrames;
+    return { title: chapter.title, startSeconds: (start + (end - start) * chapter.position) / EXPORT_SAMPLE_RATE };
+  });
+
+export const runAudiobookExport = async (
+  job: AudiobookExportJob,
+  onProgress: (progress: AudiobookExportProgress) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const { chunks, provider, voice, format, requestsPerMinute, title, prepareText } = job.options;
+  const total = chunks.length;
+  const minInterval = requestsPerMinute > 0 ? 60000 / requestsPerMinute : 0;
+
+  if (!job.encoder) job.encoder = await createAudiobookEncoder(format, EXPORT_SAMPLE_RATE);
+  // 只用于解码，长度无关紧要；解码结果会重采样到导出采样率
+  const decodeCtx = new OfflineAudioContext(1, 1, EXPORT_SAMPLE_RATE);
+
+  for (let i = job.nextIndex; i < total; i++) {
+    signal?.throwIfAborted();
+    onProgress({ phase: 'synthesizing', current: i, total });
+
+    const text = prepareText(chunks[i]).trim();
+    let samples = new Float32Array(0);
+    if (text) {
+      const cacheKey = await getAudioCacheKey(provider.model, voice, text);
+      const audio = await withAudioCache(cacheKey, async () => {
+        const wait = job.lastRequestAt + minInterval - Date.now();
+        if (wait > 0) {
+          onProgress({ phase: 'waiting', current: i, total });
+          await sleep(wait, signal);
+        }
+        job.lastRequestAt = Date.now();
+        return provider.synthesize(text, voice, signal);
+      });
+      samples = await toExportSamples(await decodeSynthesizedAudio(audio, decodeCtx));
+    }
+
+    // 本段全部成功后才写入编码器并推进进度，失败时任务停留在本段
+    signal?.throwIfAborted();
+    job.chunkStarts[i] = job.totalFrames;
+    job.encoder.append(samples);
+    job.totalFrames += samples.length;
+    job.nextIndex = i + 1;
+  }
+
+  onProgress({ phase: 'encoding', current: total, total });
+  const blob = await job.encoder.finish(resolveChapterMarks(job), title);
+  console.log(`有声书导出完成: ${(job.totalFrames / EXPORT_SAMPLE_RATE / 60).toFixed(1)} 分钟, ${(blob.size / 1024 / 1024).toFixed(1)} MB`);
+  return blob;
+};
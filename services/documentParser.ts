@@ -1,44 +1,317 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 import mammoth from 'mammoth';
-import { performOCR } from './ocrService';
+import JSZip from 'jszip';
+import { getOcrPoolSize, recognizeImage } from './ocrService';
+import { getOcrCacheKey, hashFileContent, withOcrCache } from './ocrCache';
+import { htmlToText, parseHtmlDocument } from '../utils/htmlUtils';
+import { parseMammothHtml } from '../utils/docxHtml';
+import { DEFAULT_CLEANING_RULES, applyCleaningRules } from '../utils/cleaningRules';
+import { decodeTextBuffer, markdownToText } from '../utils/textUtils';
+import { ImageOrder, canvasToBase64, loadImageToCanvas, scaleCanvas, sortImageFiles } from '../utils/imageUtils';
+import { DEFAULT_PREPROCESS, describePreprocess, preprocessForOcr } from '../utils/imagePreprocess';
+import { CleaningRule, DocumentChapter, OcrLanguage, OcrResult, PageReport, ParsedDocument, ParseOptions, PreprocessOptions, ProgressCallback } from '../types';
+import { pipelineInOrder } from '../utils/asyncUtils';
+import { PdfPageLayout, PdfTextItem, collectHyphenatedWords, detectRunningMargins, findMarginLines, getTextItems, groupItemsIntoLines, reconstructPageText, stripPageNumberLines } from '../utils/pdfLayout';
 
-// 配置 PDF.js Worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.10.38/pdf.worker.min.mjs`;
+// 配置 PDF.js Worker：由 Vite 打包进构建产物，与 pdfjs-dist 版本天然一致，离线可用
+// 在解析 Worker 中运行时，parserWorker.ts 已直接加载 pdf.js worker 模块，pdf.js 会在同一线程内处理，不再嵌套创建 Worker
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// pdf.js 渲染时需要临时 canvas，默认通过 document 创建；改用 OffscreenCanvas 以便在 Worker 中渲染
+class OffscreenCanvasFactory {
+  constructor(_options: { enableHWA?: boolean }) {}
+
+  create(width: number, height: number) {
+    if (width <= 0 || height <= 0) throw new Error("Invalid canvas size");
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+  }
+
+  reset(canvasAndContext: { canvas: OffscreenCanvas }, width: number, height: number) {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: OffscreenCanvasRenderingContext2D | null }) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+// pdf.js 默认用 DOM 中的 SVG 滤镜实现传递函数（transfer map）等效果，Worker 中没有 document 会直接渲染失败；
+// 这里所有滤镜都返回 'none'，忽略这类效果，保证页面仍能渲染出来供 OCR 使用
+class NoopFilterFactory {
+  constructor(_options: { docId: string; ownerDocument?: unknown }) {}
+
+  addFilter(_maps: unknown) {
+    return 'none';
+  }
+
+  addHCMFilter(_fgColor: string, _bgColor: string) {
+    return 'none';
+  }
+
+  addAlphaFilter(_map: unknown) {
+    return 'none';
+  }
+
+  addLuminosityFilter(_map: unknown) {
+    return 'none';
+  }
+
+  addHighlightHCMFilter(_filterName: string, _fgColor: string, _bgColor: string, _newFgColor: string, _newBgColor: string) {
+    return 'none';
+  }
+
+  destroy(_keepHCM = false) {}
+}
+
+// Worker 中没有 document，无法注册字体，改为由 pdf.js 将字形绘制为路径
+const openPdf = (data: ArrayBuffer) => pdfjsLib.getDocument({
+  data,
+  CanvasFactory: OffscreenCanvasFactory,
+  FilterFactory: typeof document === 'undefined' ? NoopFilterFactory : undefined,
+  disableFontFace: typeof document === 'undefined'
+}).promise;
+
+type PdfDocument = Awaited<ReturnType<typeof openPdf>>;
 
 export const extractTextFromDocument = async (
   file: File, 
-  onProgress?: (newChunk: string) => void,
-  maxChars: number = 0,
-  ocrEngine: 'gemini' | 'tesseract' = 'gemini'
-): Promise<string> => {
+  onProgress?: ProgressCallback,
+  options: ParseOptions = {}
+): Promise<ParsedDocument> => {
   const fileType = file.name.split('.').pop()?.toLowerCase();
 
   if (fileType === 'pdf') {
-    return await parsePDF(file, onProgress, maxChars, ocrEngine);
+    return await parsePDF(file, onProgress, options);
   } else if (fileType === 'docx') {
-    return await parseDocx(file, maxChars, ocrEngine);
+    return await parseDocx(file, onProgress, options);
+  } else if (fileType === 'epub') {
+    return await parseEpub(file, onProgress, options);
+  } else if (fileType && PLAIN_TEXT_EXTS.includes(fileType)) {
+    return await parsePlainText(file, fileType, onProgress, options);
   } else {
-    throw new Error("不支持的文件格式，请上传 PDF 或 Word (.docx) 文件。");
+    throw new Error("不支持的文件格式，请上传 PDF、Word (.docx)、EPUB、TXT、Markdown 或 HTML 文件。");
+  }
+};
+
+const PLAIN_TEXT_EXTS = ['txt', 'md', 'markdown', 'html', 'htm'];
+
+// 多张图片（如手机拍摄的书页）逐张 OCR，按顺序流式输出
+export const extractTextFromImages = async (
+  files: File[],
+  onProgress?: ProgressCallback,
+  options: ParseOptions = {},
+  order: ImageOrder = 'name'
+): Promise<ParsedDocument> => {
+  const { ocrEngine = 'gemini', ocrLanguage = 'chi_sim', preprocess = DEFAULT_PREPROCESS, cleaningRules = DEFAULT_CLEANING_RULES, signal } = options;
+  const sorted = await sortImageFiles(files, order);
+
+  let fullText = '';
+  let rawText = '';
+  const pages: PageReport[] = [];
+  let firstError: Error | null = null;
+
+  const recognizeFile = async (imageFile: File): Promise<PageExtraction> => {
+    try {
+      signal?.throwIfAborted();
+      return await ocrImageFile(imageFile, ocrEngine, ocrLanguage, preprocess, signal);
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      // 单张图片失败不影响其它页面
+      console.error(`图片识别失败: ${imageFile.name}`, error);
+      if (!firstError) firstError = error;
+      return { text: '', source: 'failed' };
+    }
+  };
+
+  const concurrency = ocrEngine === 'tesseract' ? getOcrPoolSize() + 1 : 1;
+  await pipelineInOrder(sorted, concurrency, recognizeFile, (result, imageFile, index) => {
+    const cleanedPart = cleanTextContent(result.text, cleaningRules, ocrLanguage);
+    const rawPart = withoutRules(result.text, ocrLanguage);
+    pages.push({
+      page: index + 1,
+      label: imageFile.name,
+      source: result.source,
+      confidence: result.confidence,
+      offset: fullText.length,
+      text: cleanedPart.trim(),
+      rawOffset: rawText.length,
+      rawText: rawPart.trim()
+    });
+
+    // 空白页也回调一次，保证进度连续
+    const formattedPart = cleanedPart.trim().length > 0 ? cleanedPart + '\n\n' : '';
+    fullText += formattedPart;
+    rawText += rawPart;
+
+    if (onProgress) {
+      onProgress({ chunk: formattedPart, current: index + 1, total: sorted.length, engine: ocrEngine });
+    }
+  });
+
+  if (!fullText.trim() && firstError) {
+    throw firstError;
   }
+
+  return { text: fullText.trim(), chapters: [], pages, rawText: rawText.trim() };
+};
+
+// 单页识别结果：文字及其来源
+type PageExtraction = Pick<PageReport, 'text' | 'source' | 'confidence'>;
+
+const toPageExtraction = (result: OcrResult): PageExtraction => ({
+  text: result.text,
+  source: result.failed ? 'failed' : result.engine,
+  confidence: result.failed ? undefined : result.confidence
+});
+
+// 与 PDF 渲染策略一致：本地 OCR 需要高分辨率，Gemini 需要小体积
+const imageMaxSide = (ocrEngine: 'gemini' | 'tesseract') => ocrEngine === 'tesseract' ? 3500 : 2000;
+
+const ocrImageFile = async (
+  imageFile: File,
+  ocrEngine: 'gemini' | 'tesseract',
+  ocrLanguage: OcrLanguage,
+  preprocess: PreprocessOptions,
+  signal?: AbortSignal
+): Promise<PageExtraction> => {
+  const canvas = await loadImageToCanvas(imageFile, imageMaxSide(ocrEngine));
+  return toPageExtraction(await recognizeImage(await canvasToOcrImage(canvas, ocrEngine, preprocess), ocrEngine, ocrLanguage, signal));
+};
+
+const ocrPdfPage = async (
+  page: any,
+  ocrEngine: 'gemini' | 'tesseract',
+  ocrLanguage: OcrLanguage,
+  preprocess: PreprocessOptions,
+  signal?: AbortSignal
+): Promise<PageExtraction> => {
+  // 关键修改：传入 ocrEngine 参数，决定渲染策略
+  const imageBase64 = await renderPageToImage(page, ocrEngine, preprocess);
+  if (!imageBase64) return { text: '', source: 'failed' };
+  const result = toPageExtraction(await recognizeImage(imageBase64, ocrEngine, ocrLanguage, signal));
+  return { ...result, text: stripPageNumberLines(result.text) };
+};
+
+// 文件内容哈希用于 OCR 缓存；非安全上下文 (http) 下 crypto.subtle 不可用，此时不使用缓存
+const tryHashFile = async (buffer: ArrayBuffer): Promise<string | null> => {
+  try {
+    return await hashFileContent(buffer);
+  } catch (e) {
+    console.warn("无法计算文件哈希，本次不使用 OCR 缓存", e);
+    return null;
+  }
+};
+
+// 本地 OCR 的结果还取决于预处理设置，需计入缓存键
+const ocrCacheVariant = (ocrEngine: 'gemini' | 'tesseract', preprocess: PreprocessOptions) =>
+  ocrEngine === 'tesseract' ? describePreprocess(preprocess) : '';
+
+// 重新识别的结果同时带上未应用清洗规则的文字，供规则编辑器预览
+type PageRecognition = PageExtraction & Pick<PageReport, 'rawText'>;
+
+// 用指定引擎重新识别单个 PDF 页面（复核界面使用），返回清洗后的文字
+export const reocrPdfPage = async (file: File, pageNumber: number, options: ParseOptions = {}): Promise<PageRecognition> => {
+  const { ocrEngine = 'gemini', ocrLanguage = 'chi_sim', preprocess = DEFAULT_PREPROCESS, cleaningRules = DEFAULT_CLEANING_RULES } = options;
+  const arrayBuffer = await file.arrayBuffer();
+  const fileHash = await tryHashFile(arrayBuffer);
+  const pdf = await openPdf(arrayBuffer);
+  try {
+    const cacheKey = fileHash ? getOcrCacheKey(fileHash, pageNumber, ocrEngine, ocrLanguage, ocrCacheVariant(ocrEngine, preprocess)) : null;
+    const result = await withOcrCache(cacheKey, async () => ocrPdfPage(await pdf.getPage(pageNumber), ocrEngine, ocrLanguage, preprocess));
+    return { ...result, text: cleanTextContent(result.text, cleaningRules, ocrLanguage).trim(), rawText: withoutRules(result.text, ocrLanguage).trim() };
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// 用指定引擎重新识别单张图片
+export const reocrImage = async (imageFile: File, options: ParseOptions = {}): Promise<PageRecognition> => {
+  const { ocrEngine = 'gemini', ocrLanguage = 'chi_sim', preprocess = DEFAULT_PREPROCESS, cleaningRules = DEFAULT_CLEANING_RULES } = options;
+  const result = await ocrImageFile(imageFile, ocrEngine, ocrLanguage, preprocess);
+  return { ...result, text: cleanTextContent(result.text, cleaningRules, ocrLanguage).trim(), rawText: withoutRules(result.text, ocrLanguage).trim() };
+};
+
+// 预处理效果预览：返回同一页处理前后的缩略图 (Base64 JPEG)，pageNumber 为空时 file 是图片
+const PREVIEW_MAX_SIDE = 1400;
+
+export const renderPreprocessPreview = async (
+  file: File,
+  pageNumber: number | null,
+  preprocess: PreprocessOptions
+): Promise<{ before: string; after: string }> => {
+  let canvas: OffscreenCanvas;
+  if (pageNumber === null) {
+    canvas = await loadImageToCanvas(file, imageMaxSide('tesseract'));
+  } else {
+    const pdf = await openPdf(await file.arrayBuffer());
+    try {
+      canvas = await renderPageToCanvas(await pdf.getPage(pageNumber), TESSERACT_RENDER_SCALE);
+    } finally {
+      await pdf.destroy();
+    }
+  }
+  // 按实际识别时的分辨率处理，再缩小用于显示，保证预览与识别效果一致
+  const processed = preprocessForOcr(canvas, preprocess);
+  return {
+    before: await canvasToBase64(scaleCanvas(canvas, PREVIEW_MAX_SIDE), 'image/jpeg', 0.85),
+    after: await canvasToBase64(scaleCanvas(processed, PREVIEW_MAX_SIDE), 'image/jpeg', 0.85)
+  };
+};
+
+// 读取页数时打开的 PDF 留给随后的解析使用，pdf.js 不必把同一个文件加载两次
+// 文件经 postMessage 传入 Worker 后是新的对象，按名称、大小和修改时间判断是否同一文件
+let preparedPdf: { file: File; pdf: PdfDocument } | null = null;
+
+const isSameFile = (a: File, b: File) => a.name === b.name && a.size === b.size && a.lastModified === b.lastModified;
+
+const takePreparedPdf = (file: File): PdfDocument | null => {
+  const prepared = preparedPdf;
+  preparedPdf = null;
+  if (prepared && isSameFile(prepared.file, file)) return prepared.pdf;
+  prepared?.pdf.destroy();
+  return null;
+};
+
+// 打开 PDF 读取总页数，供用户在解析前选择页码范围
+export const getPdfPageCount = async (file: File): Promise<number> => {
+  try {
+    takePreparedPdf(file)?.destroy();
+    const pdf = await openPdf(await file.arrayBuffer());
+    preparedPdf = { file, pdf };
+    return pdf.numPages;
+  } catch (error) {
+    console.error("Error opening PDF:", error);
+    throw new Error("无法打开 PDF 文件，请确保文件未损坏且未加密。");
+  }
+};
+
+// OCR 常在汉字/假名之间插入空格，按语言决定哪些文字之间的空白需要合并
+const CJK_SCRIPT_RANGES: Record<OcrLanguage, string | null> = {
+  chi_sim: '\\u3400-\\u9fff\\u3000-\\u303f\\uff00-\\uffef',
+  chi_tra: '\\u3400-\\u9fff\\uf900-\\ufaff\\u3000-\\u303f\\uff00-\\uffef',
+  jpn: '\\u3400-\\u9fff\\u3040-\\u30ff\\u31f0-\\u31ff\\u3000-\\u303f\\uff00-\\uffef',
+  eng: null
 };
 
 // 文本清洗函数
-const cleanTextContent = (text: string): string => {
+// rules 为用户可编辑的正则替换规则（见 utils/cleaningRules.ts）
+// language 仅在文字来自 OCR 时传入，用于合并该文字体系字符之间的多余空格
+const cleanTextContent = (text: string, rules: CleaningRule[], language?: OcrLanguage): string => {
   let cleaned = text;
-  cleaned = cleaned.replace(/CS\s*扫描全能王/gi, '');
-  cleaned = cleaned.replace(/3亿人都在用的扫描App/g, '');
-  cleaned = cleaned.replace(/全能扫描王/g, '');
-  cleaned = cleaned.replace(/(关注|搜索|扫码).{0,10}(微信|公众号|微博)/g, '');
-  cleaned = cleaned.replace(/二维码/g, '');
-  
-  cleaned = cleaned.split('\n').filter(line => {
-    const trimLine = line.trim();
-    if (!trimLine) return true; 
-    const isAnswerKey = /^[A-Ha-h\s]+$/.test(trimLine);
-    if (isAnswerKey && trimLine.length < 10) return false;
-    if (/^[/\-—|@\s]+$/.test(trimLine)) return false;
-    return true;
-  }).join('\n');
+  const cjkRange = language ? CJK_SCRIPT_RANGES[language] : null;
+  if (cjkRange) {
+    // 只合并同一行内的空格，保留换行
+    cleaned = cleaned.replace(new RegExp(`([${cjkRange}])[ \\t\\u3000]+(?=[${cjkRange}])`, 'g'), '$1');
+  }
+  cleaned = applyCleaningRules(cleaned, rules);
 
   let prevCleaned = '';
   while (cleaned !== prevCleaned) {
@@ -50,188 +323,487 @@ const cleanTextContent = (text: string): string => {
   return cleaned;
 };
 
-const parsePDF = async (file: File, onProgress?: (newChunk: string) => void, maxChars: number = 0, ocrEngine: 'gemini' | 'tesseract' = 'gemini'): Promise<string> => {
+// 不应用用户规则时的段落，与正文按相同格式拼接，供规则编辑器预览
+const withoutRules = (text: string, language?: OcrLanguage): string => {
+  const part = cleanTextContent(text, [], language);
+  return part.trim().length > 0 ? part + '\n\n' : '';
+};
+
+// 统计页眉页脚时最多读取的页数
+const MARGIN_SAMPLE_PAGES = 40;
+
+const parsePDF = async (file: File, onProgress?: ProgressCallback, options: ParseOptions = {}): Promise<ParsedDocument> => {
+  const { ocrEngine = 'gemini', ocrLanguage = 'chi_sim', pageRange, preprocess = DEFAULT_PREPROCESS, cleaningRules = DEFAULT_CLEANING_RULES, signal } = options;
   try {
     const arrayBuffer = await file.arrayBuffer();
-    const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-    const pdf = await loadingTask.promise;
+    // 必须在交给 pdf.js 之前计算，pdf.js 会把数据转交给 worker
+    const fileHash = await tryHashFile(arrayBuffer);
+    const pdf = takePreparedPdf(file) ?? await openPdf(arrayBuffer);
     
     let fullText = '';
+    let rawText = '';
+    const pages: PageReport[] = [];
     const pageCount = pdf.numPages;
+    // 每页正文在全文中的起始位置，用于把书签映射到文本偏移
+    const pageOffsets: number[] = [];
 
-    for (let i = 1; i <= pageCount; i++) {
-      if (maxChars > 0 && fullText.length >= maxChars) {
-        console.log(`已达到设定的阅读时长限制 (${maxChars}字)，停止解析后续页面。`);
-        break;
-      }
+    // 范围之外的页面完全跳过，包括其 OCR
+    const firstPage = Math.max(1, pageRange?.start ?? 1);
+    const lastPage = Math.min(pageCount, pageRange?.end ?? pageCount);
 
-      const page = await pdf.getPage(i);
-      
+    // 读取页面的文字坐标；预扫描读过的页面直接复用
+    const layouts = new Map<number, { items: PdfTextItem[]; layout: PdfPageLayout; view: number[] }>();
+    const loadLayout = async (pageNumber: number) => {
+      const cached = layouts.get(pageNumber);
+      if (cached) {
+        layouts.delete(pageNumber);
+        return cached;
+      }
+      const page = await pdf.getPage(pageNumber);
       const textContent = await page.getTextContent();
-      const pageText = textContent.items
-        .map((item: any) => item.str)
-        .join(' ')
-        .trim();
-      
-      let rawTextPart = '';
+      const items = getTextItems(textContent.items);
+      const [, viewBottom, , viewTop] = page.view;
+      return { items, layout: { lines: groupItemsIntoLines(items, viewTop - viewBottom, viewBottom) }, view: page.view };
+    };
+
+    // 预扫描：在范围内均匀抽取部分页面统计跨页重复的页眉/页脚，长文档也能很快开始输出
+    const sampleCount = Math.min(MARGIN_SAMPLE_PAGES, Math.max(0, lastPage - firstPage + 1));
+    const samplePages = new Set(Array.from({ length: sampleCount }, (_, k) =>
+      firstPage + Math.floor((k * (lastPage - firstPage + 1)) / sampleCount)
+    ));
+    for (const pageNumber of samplePages) {
+      signal?.throwIfAborted();
+      layouts.set(pageNumber, await loadLayout(pageNumber));
+    }
+    const runningMargins = detectRunningMargins(Array.from(layouts.values()).map(entry => entry.layout));
+    // 文档中写过的带连字符的词，重建时用来区分跨行的复合词与断词
+    const hyphenatedWords = new Set<string>();
+    layouts.forEach(entry => collectHyphenatedWords(entry.layout.lines, hyphenatedWords));
+
+    // 单页处理：原生文字直接重建，扫描页渲染后交给 OCR
+    const extractPageText = async (pageNumber: number): Promise<PageExtraction> => {
+      signal?.throwIfAborted();
+      const { items, layout, view } = await loadLayout(pageNumber);
+      const rawPageText = items.map(item => item.str).join(' ').trim();
 
       // 如果页面文字极少，判定为图片扫描件
-      if (pageText.length < 50) {
-        // 关键修改：传入 ocrEngine 参数，决定渲染策略
-        const imageBase64 = await renderPageToImage(page, ocrEngine);
-        if (imageBase64) {
-           const ocrText = await performOCR(imageBase64, ocrEngine);
-           rawTextPart = ocrText;
-        }
-      } else {
-        rawTextPart = pageText;
+      // 同一文件之前识别过的页面直接读取缓存，无需渲染
+      if (rawPageText.length < 50) {
+        const cacheKey = fileHash ? getOcrCacheKey(fileHash, pageNumber, ocrEngine, ocrLanguage, ocrCacheVariant(ocrEngine, preprocess)) : null;
+        return await withOcrCache(cacheKey, async () => ocrPdfPage(await pdf.getPage(pageNumber), ocrEngine, ocrLanguage, preprocess, signal));
       }
 
-      const cleanedPart = cleanTextContent(rawTextPart);
+      // 去掉页眉、页脚、页码所在行，再按坐标重建阅读顺序（分栏、段落、连字符）
+      const marginLines = findMarginLines(layout, runningMargins);
+      const bodyLines = layout.lines.filter(line => !marginLines.has(line));
+      collectHyphenatedWords(bodyLines, hyphenatedWords);
+      return { text: reconstructPageText(bodyLines, view[0], view[2], hyphenatedWords), source: 'native' };
+    };
 
-      if (cleanedPart.trim().length > 0) {
-        const formattedPart = cleanedPart + '\n\n';
-        fullText += formattedPart;
+    // 流水线：本地 OCR 时，后续页面的渲染与前面页面的识别同时进行，结果仍按页序输出
+    // Gemini 保持逐页串行，避免触发限流
+    const concurrency = ocrEngine === 'tesseract' ? getOcrPoolSize() + 1 : 1;
+    const pageNumbers = Array.from({ length: Math.max(0, lastPage - firstPage + 1) }, (_, k) => firstPage + k);
 
-        if (onProgress) {
-          onProgress(formattedPart);
-        }
+    await pipelineInOrder(pageNumbers, concurrency, extractPageText, (result, pageNumber) => {
+      pageOffsets[pageNumber] = fullText.length;
+
+      // 原生文字页的空格来自排版，只对 OCR 识别出的页面合并字间空格
+      const language = result.source === 'native' ? undefined : ocrLanguage;
+      const cleanedPart = cleanTextContent(result.text, cleaningRules, language);
+      const rawPart = withoutRules(result.text, language);
+      pages.push({
+        page: pageNumber,
+        label: `第 ${pageNumber} 页`,
+        source: result.source,
+        confidence: result.confidence,
+        offset: fullText.length,
+        text: cleanedPart.trim(),
+        rawOffset: rawText.length,
+        rawText: rawPart.trim()
+      });
+
+      // 空白页也回调一次，保证进度连续
+      const formattedPart = cleanedPart.trim().length > 0 ? cleanedPart + '\n\n' : '';
+      fullText += formattedPart;
+      rawText += rawPart;
+
+      if (onProgress) {
+        onProgress({
+          chunk: formattedPart,
+          current: pages.length,
+          total: pageNumbers.length,
+          engine: result.source === 'native' ? undefined : ocrEngine
+        });
       }
-    }
+    });
+
+    const chapters = await readPdfOutline(pdf, pageOffsets, fullText);
 
-    return fullText.trim();
+    return { text: fullText.trim(), chapters, pages, rawText: rawText.trim() };
   } catch (error) {
+    // 用户取消时原样抛出，交由调用方区分
+    if (signal?.aborted) throw error;
     console.error("Error parsing PDF:", error);
     throw new Error("无法解析 PDF 文件，请确保文件未损坏且未加密。");
   }
 };
 
-// 图像预处理：灰度化 + 对比度增强 (仅用于本地 OCR)
-const preprocessCanvas = (canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D) => {
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
-    
-    // 对比度调整因子
-    const contrast = 30; 
-    const factor = (259 * (contrast + 255)) / (255 * (259 - contrast));
-
-    for (let i = 0; i < data.length; i += 4) {
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
-        
-        // 1. 转为灰度
-        let gray = 0.299 * r + 0.587 * g + 0.114 * b;
-
-        // 2. 应用对比度增强
-        gray = factor * (gray - 128) + 128;
-
-        if (gray < 0) gray = 0;
-        if (gray > 255) gray = 255;
-        
-        data[i] = gray;
-        data[i + 1] = gray;
-        data[i + 2] = gray;
-    }
-    
-    ctx.putImageData(imageData, 0, 0);
+// 书签的 dest 可能是命名目标 (string) 或显式目标数组，第一个元素是页面引用
+const resolveOutlinePage = async (pdf: any, dest: any): Promise<number | null> => {
+  try {
+    const explicitDest = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicitDest) || explicitDest.length === 0) return null;
+    const target = explicitDest[0];
+    // 个别生成器直接写页码 (从 0 开始) 而不是页面引用
+    const pageIndex = typeof target === 'number' ? target : await pdf.getPageIndex(target);
+    return pageIndex + 1;
+  } catch (e) {
+    return null;
+  }
 };
 
-const renderPageToImage = async (page: any, ocrEngine: 'gemini' | 'tesseract'): Promise<string | null> => {
+// 读取 PDF 书签并映射为全文中的章节位置
+const readPdfOutline = async (pdf: any, pageOffsets: number[], fullText: string): Promise<DocumentChapter[]> => {
+  let outline: any[] | null = null;
   try {
-    // === 策略分流 ===
-    // 1. Tesseract (本地): 需要极高的清晰度和预处理 (Scale 3.5, PNG)
-    // 2. Gemini (云端): 需要较小的体积以便快速上传，且模型自带强大的视觉理解，不需要二值化 (Scale 2.0, JPEG)
-    
-    const isLocal = ocrEngine === 'tesseract';
-    const scale = isLocal ? 3.5 : 2.0; 
+    outline = await pdf.getOutline();
+  } catch (e) {
+    console.warn("读取 PDF 书签失败", e);
+  }
+  if (!outline || outline.length === 0) return [];
 
-    const viewport = page.getViewport({ scale: scale });
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d', { willReadFrequently: true });
-    
-    if (!context) return null;
+  const chapters: DocumentChapter[] = [];
 
-    canvas.height = viewport.height;
-    canvas.width = viewport.width;
+  const walk = async (items: any[], level: number) => {
+    for (const item of items) {
+      const title = (item.title || '').replace(/\s+/g, ' ').trim();
+      const pageNumber = await resolveOutlinePage(pdf, item.dest);
 
-    context.fillStyle = '#FFFFFF';
-    context.fillRect(0, 0, canvas.width, canvas.height);
+      // 超出解析范围（未选中的页面）的书签直接忽略
+      if (title && pageNumber !== null && pageOffsets[pageNumber] !== undefined) {
+        const pageStart = pageOffsets[pageNumber];
+        const pageEnd = pageOffsets[pageNumber + 1] ?? fullText.length;
+        // 如果标题文字出现在该页，精确定位到标题处，否则定位到页首
+        const titleIndex = fullText.indexOf(title, pageStart);
+        const offset = titleIndex !== -1 && titleIndex < pageEnd ? titleIndex : pageStart;
+        chapters.push({ title, offset, level });
+      }
 
-    await page.render({ canvasContext: context, viewport: viewport }).promise;
-    
-    // 仅针对 Tesseract 进行预处理
+      if (item.items && item.items.length > 0) {
+        await walk(item.items, level + 1);
+      }
+    }
+  };
+
+  await walk(outline, 0);
+
+  return chapters.sort((a, b) => a.offset - b.offset);
+};
+
+// === 策略分流 ===
+// 1. Tesseract (本地): 需要极高的清晰度和预处理 (Scale 3.5, PNG)
+// 2. Gemini (云端): 需要较小的体积以便快速上传，且模型自带强大的视觉理解，不需要二值化 (Scale 2.0, JPEG)
+const TESSERACT_RENDER_SCALE = 3.5;
+const GEMINI_RENDER_SCALE = 2.0;
+
+const renderPageToCanvas = async (page: any, scale: number): Promise<OffscreenCanvas> => {
+  const viewport = page.getViewport({ scale: scale });
+  const canvas = new OffscreenCanvas(Math.floor(viewport.width), Math.floor(viewport.height));
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error("无法创建 Canvas 上下文");
+
+  context.fillStyle = '#FFFFFF';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  await page.render({ canvasContext: context, viewport: viewport }).promise;
+  return canvas;
+};
+
+const renderPageToImage = async (page: any, ocrEngine: 'gemini' | 'tesseract', preprocess: PreprocessOptions): Promise<string | null> => {
+  try {
+    const scale = ocrEngine === 'tesseract' ? TESSERACT_RENDER_SCALE : GEMINI_RENDER_SCALE;
+    const canvas = await renderPageToCanvas(page, scale);
+    return await canvasToOcrImage(canvas, ocrEngine, preprocess);
+  } catch (e) {
+    console.error("Failed to render page for OCR", e);
+    return null;
+  }
+};
+
+// 将 canvas 编码为 OCR 引擎需要的 Base64 图片
+const canvasToOcrImage = async (canvas: OffscreenCanvas, ocrEngine: 'gemini' | 'tesseract', preprocess: PreprocessOptions): Promise<string> => {
+    // 仅针对 Tesseract 进行预处理（灰度、纠偏、裁边、二值化，见 utils/imagePreprocess.ts）
     // Gemini 最好看原图（带颜色和阴影），预处理反而可能丢失信息
-    if (isLocal) {
-        preprocessCanvas(canvas, context);
+    if (ocrEngine === 'tesseract') {
         // 本地使用 PNG 无损
-        const dataUrl = canvas.toDataURL('image/png');
-        return dataUrl.split(',')[1];
+        return canvasToBase64(preprocessForOcr(canvas, preprocess), 'image/png');
     } else {
         // Gemini 使用 JPEG 压缩，质量 0.8
         // 这可以将体积从 10MB 降低到 500KB - 1MB，极大加速手机端上传
-        const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-        return dataUrl.split(',')[1];
+        return canvasToBase64(canvas, 'image/jpeg', 0.8);
     }
+};
+
+// === DOCX ===
+// 解析 mammoth 转换出的 HTML：标题作为章节，表格逐行朗读（或跳过），内嵌图片的 OCR 文字插入到图片所在位置
+
+// 小于此尺寸的图片多为图标、分隔线等装饰，不做 OCR
+const DOCX_MIN_IMAGE_SIDE = 200;
 
+const ocrEmbeddedImage = async (
+  src: string,
+  ocrEngine: 'gemini' | 'tesseract',
+  ocrLanguage: OcrLanguage,
+  preprocess: PreprocessOptions,
+  signal?: AbortSignal
+): Promise<PageExtraction> => {
+  const blob = await (await fetch(src)).blob();
+  let canvas: OffscreenCanvas;
+  try {
+    canvas = await loadImageToCanvas(new File([blob], 'docx-image', { type: blob.type }), imageMaxSide(ocrEngine));
   } catch (e) {
-    console.error("Failed to render page for OCR", e);
-    return null;
+    // EMF/WMF 等矢量格式浏览器无法解码
+    console.warn(`跳过无法解码的内嵌图片 (${blob.type || '未知格式'})`, e);
+    return { text: '', source: 'failed' };
   }
+  if (Math.max(canvas.width, canvas.height) < DOCX_MIN_IMAGE_SIDE) {
+    return { text: '', source: 'native' };
+  }
+  return toPageExtraction(await recognizeImage(await canvasToOcrImage(canvas, ocrEngine, preprocess), ocrEngine, ocrLanguage, signal));
 };
 
-const parseDocx = async (file: File, maxChars: number = 0, ocrEngine: 'gemini' | 'tesseract' = 'gemini'): Promise<string> => {
+const parseDocx = async (file: File, onProgress?: ProgressCallback, options: ParseOptions = {}): Promise<ParsedDocument> => {
+  const { ocrEngine = 'gemini', ocrLanguage = 'chi_sim', preprocess = DEFAULT_PREPROCESS, docxTables = 'read', cleaningRules = DEFAULT_CLEANING_RULES, signal } = options;
   try {
     const arrayBuffer = await file.arrayBuffer();
-    
-    const result = await mammoth.extractRawText({ arrayBuffer });
-    let text = cleanTextContent(result.value.trim());
-    
-    if (text.length > 50) {
-        if (maxChars > 0 && text.length > maxChars) {
-            text = text.substring(0, maxChars);
+    // mammoth 默认把图片内嵌为 data URI，顺序与文档中一致
+    const { value: html } = await mammoth.convertToHtml({ arrayBuffer });
+    const blocks = parseMammothHtml(html, docxTables);
+
+    const imageCount = blocks.filter(block => block.type === 'image').length;
+    // 以图片在文档中的序号作为缓存页码
+    const fileHash = imageCount > 0 ? await tryHashFile(arrayBuffer) : null;
+
+    let fullText = '';
+    let rawText = '';
+    const chapters: DocumentChapter[] = [];
+    // 上次回调之后新增的文字，在每张图片识别完成时流式输出
+    let pending = '';
+    let imageIndex = 0;
+
+    const append = (part: string) => {
+      if (!part.trim()) return;
+      const formattedPart = part + '\n\n';
+      fullText += formattedPart;
+      pending += formattedPart;
+    };
+
+    for (const block of blocks) {
+      if (block.type === 'heading') {
+        rawText += withoutRules(block.text);
+        const title = cleanTextContent(block.text, cleaningRules);
+        if (!title) continue;
+        chapters.push({ title, offset: fullText.length, level: block.level });
+        append(title);
+      } else if (block.type === 'text') {
+        rawText += withoutRules(block.text);
+        append(cleanTextContent(block.text, cleaningRules));
+      } else {
+        signal?.throwIfAborted();
+        imageIndex++;
+        const cacheKey = fileHash ? getOcrCacheKey(fileHash, imageIndex, ocrEngine, ocrLanguage, ocrCacheVariant(ocrEngine, preprocess)) : null;
+        try {
+          const result = await withOcrCache(cacheKey, () => ocrEmbeddedImage(block.src, ocrEngine, ocrLanguage, preprocess, signal));
+          rawText += withoutRules(result.text, ocrLanguage);
+          append(cleanTextContent(result.text, cleaningRules, ocrLanguage));
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          // 单张图片失败不影响正文
+          console.error(`Word 内嵌图片识别失败: 第 ${imageIndex} 张`, error);
+        }
+        if (onProgress) {
+          onProgress({ chunk: pending, current: imageIndex, total: imageCount, engine: ocrEngine });
         }
-        return text;
+        pending = '';
+      }
     }
 
-    const images: string[] = [];
-    const options = {
-        convertImage: mammoth.images.imgElement((image: any) => {
-            return image.read("base64").then((imageBuffer: string) => {
-                images.push(imageBuffer);
-                return { src: "" }; 
-            });
-        })
-    };
-    
-    await mammoth.convertToHtml({ arrayBuffer }, options);
+    if (onProgress && (pending || imageCount === 0)) {
+      onProgress({ chunk: pending, current: Math.max(imageCount, 1), total: Math.max(imageCount, 1) });
+    }
+
+    return { text: fullText.trim(), chapters, rawText: rawText.trim() };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Error parsing DOCX:", error);
+    throw new Error("无法解析 Word 文件，请确保文件是标准的 .docx 格式。");
+  }
+};
 
-    if (images.length === 0) {
-        return text;
+// === EPUB ===
+// EPUB 本质是一个 zip 包：META-INF/container.xml 指向 OPF，
+// OPF 的 manifest 列出所有文件，spine 给出阅读顺序，目录 (nav.xhtml 或 toc.ncx) 提供章节标题
+
+// 将 OPF 中的相对路径解析为 zip 内的绝对路径
+const resolveZipPath = (baseDir: string, href: string): string => {
+  const cleanHref = decodeURIComponent(href.split('#')[0]);
+  const segments = (baseDir + cleanHref).split('/');
+  const resolved: string[] = [];
+  for (const seg of segments) {
+    if (seg === '..') resolved.pop();
+    else if (seg !== '.' && seg !== '') resolved.push(seg);
+  }
+  return resolved.join('/');
+};
+
+const readZipText = async (zip: JSZip, path: string): Promise<string | null> => {
+  const entry = zip.file(path);
+  return entry ? await entry.async('string') : null;
+};
+
+// 从目录文件中读取 “章节文件 -> 标题” 映射，优先 EPUB3 的 nav，其次 EPUB2 的 NCX
+const readEpubTitles = async (zip: JSZip, opf: Document, opfDir: string): Promise<Map<string, string>> => {
+  const titles = new Map<string, string>();
+  const items = Array.from(opf.getElementsByTagName('item'));
+
+  const navItem = items.find(item => (item.getAttribute('properties') || '').split(/\s+/).includes('nav'));
+  if (navItem) {
+    const navPath = resolveZipPath(opfDir, navItem.getAttribute('href') || '');
+    const navMarkup = await readZipText(zip, navPath);
+    if (navMarkup) {
+      const navDoc = parseHtmlDocument(navMarkup, true);
+      const navDir = navPath.substring(0, navPath.lastIndexOf('/') + 1);
+      for (const link of Array.from(navDoc.getElementsByTagName('a'))) {
+        const href = link.getAttribute('href');
+        const title = (link.textContent || '').replace(/\s+/g, ' ').trim();
+        if (!href || !title) continue;
+        const target = resolveZipPath(navDir, href);
+        if (!titles.has(target)) titles.set(target, title);
+      }
+      if (titles.size > 0) return titles;
     }
+  }
 
-    const imagesToProcess = images.slice(0, 50); 
-    let ocrResults = "";
-    
-    for (const base64 of imagesToProcess) {
-        if (maxChars > 0 && (text.length + ocrResults.length) >= maxChars) break;
-        const ocrText = await performOCR(base64, ocrEngine);
-        if (ocrText) {
-            ocrResults += ocrText + "\n\n";
-        }
+  const tocId = opf.getElementsByTagName('spine')[0]?.getAttribute('toc');
+  const ncxItem = items.find(item => item.getAttribute('id') === tocId)
+    || items.find(item => item.getAttribute('media-type') === 'application/x-dtbncx+xml');
+  if (ncxItem) {
+    const ncxPath = resolveZipPath(opfDir, ncxItem.getAttribute('href') || '');
+    const ncxMarkup = await readZipText(zip, ncxPath);
+    if (ncxMarkup) {
+      const ncxDoc = new DOMParser().parseFromString(ncxMarkup, 'application/xml');
+      const ncxDir = ncxPath.substring(0, ncxPath.lastIndexOf('/') + 1);
+      for (const navPoint of Array.from(ncxDoc.getElementsByTagName('navPoint'))) {
+        const label = navPoint.getElementsByTagName('text')[0]?.textContent?.trim();
+        const src = navPoint.getElementsByTagName('content')[0]?.getAttribute('src');
+        if (!label || !src) continue;
+        const target = resolveZipPath(ncxDir, src);
+        if (!titles.has(target)) titles.set(target, label);
+      }
     }
-    
-    let finalText = (text + "\n\n" + ocrResults).trim();
-    finalText = cleanTextContent(finalText);
+  }
+
+  return titles;
+};
+
+const parseEpub = async (file: File, onProgress?: ProgressCallback, options: ParseOptions = {}): Promise<ParsedDocument> => {
+  const { cleaningRules = DEFAULT_CLEANING_RULES, signal } = options;
+  try {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
 
-    if (maxChars > 0 && finalText.length > maxChars) {
-        finalText = finalText.substring(0, maxChars);
+    const containerXml = await readZipText(zip, 'META-INF/container.xml');
+    if (!containerXml) throw new Error("EPUB 缺少 META-INF/container.xml");
+    const container = new DOMParser().parseFromString(containerXml, 'application/xml');
+    const opfPath = container.getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+    if (!opfPath) throw new Error("EPUB 未声明 OPF 文件");
+
+    const opfXml = await readZipText(zip, opfPath);
+    if (!opfXml) throw new Error(`找不到 OPF 文件: ${opfPath}`);
+    const opf = new DOMParser().parseFromString(opfXml, 'application/xml');
+    const opfDir = opfPath.substring(0, opfPath.lastIndexOf('/') + 1);
+
+    const manifest = new Map<string, string>();
+    for (const item of Array.from(opf.getElementsByTagName('item'))) {
+      const id = item.getAttribute('id');
+      const href = item.getAttribute('href');
+      if (id && href) manifest.set(id, resolveZipPath(opfDir, href));
     }
 
-    return finalText;
+    const titles = await readEpubTitles(zip, opf, opfDir);
+    const spine = Array.from(opf.getElementsByTagName('itemref'))
+      .filter(ref => ref.getAttribute('linear') !== 'no')
+      .map(ref => manifest.get(ref.getAttribute('idref') || ''))
+      .filter((path): path is string => !!path);
 
+    let fullText = '';
+    let rawText = '';
+    const chapters: DocumentChapter[] = [];
+
+    for (let i = 0; i < spine.length; i++) {
+      signal?.throwIfAborted();
+      const chapterPath = spine[i];
+      const markup = await readZipText(zip, chapterPath);
+      if (!markup) continue;
+
+      const chapterDoc = parseHtmlDocument(markup, true);
+      const body = chapterDoc.getElementsByTagName('body')[0] || chapterDoc.documentElement;
+      const bodyText = htmlToText(body);
+      let chapterText = cleanTextContent(bodyText, cleaningRules);
+      // 目录标题通常与正文首行的标题重复，重复时不再额外插入
+      const title = titles.get(chapterPath);
+      const rawChapter = withoutRules(bodyText);
+      if (rawChapter) rawText += title && !rawChapter.startsWith(title) ? `${title}\n\n${rawChapter}` : rawChapter;
+      if (!chapterText.trim()) continue;
+
+      if (title && !chapterText.startsWith(title)) {
+        chapterText = `${title}\n\n${chapterText}`;
+      }
+      if (title) {
+        chapters.push({ title, offset: fullText.length, level: 0 });
+      }
+
+      const formattedPart = chapterText + '\n\n';
+      fullText += formattedPart;
+
+      if (onProgress) {
+        onProgress({ chunk: formattedPart, current: i + 1, total: spine.length });
+      }
+    }
+
+    return { text: fullText.trim(), chapters, rawText: rawText.trim() };
   } catch (error) {
-    console.error("Error parsing DOCX:", error);
-    throw new Error("无法解析 Word 文件，请确保文件是标准的 .docx 格式。");
+    if (signal?.aborted) throw error;
+    console.error("Error parsing EPUB:", error);
+    throw new Error("无法解析 EPUB 文件，请确保文件未损坏且未加密 (DRM)。");
+  }
+};
+
+// === TXT / Markdown / HTML ===
+const parsePlainText = async (file: File, fileType: string, onProgress?: ProgressCallback, options: ParseOptions = {}): Promise<ParsedDocument> => {
+  const { cleaningRules = DEFAULT_CLEANING_RULES } = options;
+  try {
+    const raw = decodeTextBuffer(await file.arrayBuffer());
+
+    let text: string;
+    if (fileType === 'md' || fileType === 'markdown') {
+      text = markdownToText(raw);
+    } else if (fileType === 'html' || fileType === 'htm') {
+      const doc = parseHtmlDocument(raw);
+      text = htmlToText(doc.body || doc.documentElement);
+    } else {
+      text = raw.replace(/\r\n?/g, '\n');
+    }
+
+    const cleaned = cleanTextContent(text.trim(), cleaningRules);
+
+    if (onProgress && cleaned) {
+      onProgress({ chunk: cleaned, current: 1, total: 1 });
+    }
+
+    return { text: cleaned, chapters: [], rawText: cleanTextContent(text.trim(), []) };
+  } catch (error) {
+    console.error("Error parsing text file:", error);
+    throw new Error("无法读取文本文件，请确认文件编码为 UTF-8、GBK 或 Big5。");
   }
 };
\ No newline at end of file
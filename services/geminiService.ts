@@ -8,13 +8,15 @@ if (!apiKey) {
 
 const ai = new GoogleGenAI({ apiKey: apiKey || '' });
 
+// Gemini Flash TTS 模型
+export const GEMINI_TTS_MODEL = "gemini-2.5-flash-preview-tts";
+
 // 文本转语音 (TTS)
 export const generateSpeechFromText = async (text: string, voiceName: string = 'Kore'): Promise<string> => {
   const cleanText = text.trim();
   if (!cleanText) throw new Error("文本内容为空");
 
-  // Gemini Flash TTS 模型
-  const modelName = "gemini-2.5-flash-preview-tts";
+  const modelName = GEMINI_TTS_MODEL;
   const retries = 3;
   let lastError: any;
 
@@ -0,0 +1,77 @@
+import { OcrLanguage, PageReport } from '../types';
+
+// === OCR 结果缓存 ===
+// 扫描件 OCR 动辄数分钟（或消耗 Gemini 配额），识别结果按「文件内容哈希 + 页码 + 引擎 + 语言」存入 IndexedDB，
+// 重新打开同一文件时直接复用。文件改名不影响命中，内容变化则自然失效
+
+const DB_NAME = 'readnow-ocr-cache';
+const STORE_NAME = 'pages';
+
+type CachedPage = Pick<PageReport, 'text' | 'source' | 'confidence'>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(err => {
+      // 隐私模式等环境下 IndexedDB 不可用，允许下次重试
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// 文件内容的 SHA-256（十六进制），作为缓存键的一部分
+export const hashFileContent = async (buffer: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// variant 用于区分会影响识别结果的其它设置（如本地 OCR 的预处理）
+export const getOcrCacheKey = (fileHash: string, page: number, engine: 'gemini' | 'tesseract', language: OcrLanguage, variant = '') =>
+  `${fileHash}:${page}:${engine}:${language}${variant ? `:${variant}` : ''}`;
+
+// 先查缓存，未命中时执行识别并写入缓存；识别失败的结果不缓存，下次仍会重试
+// 缓存读写出错只影响速度，不影响识别本身
+export const withOcrCache = async (cacheKey: string | null, recognize: () => Promise<CachedPage>): Promise<CachedPage> => {
+  if (cacheKey) {
+    try {
+      const cached = await runRequest<CachedPage | undefined>('readonly', store => store.get(cacheKey));
+      if (cached) {
+        console.log(`OCR 缓存命中: ${cacheKey}`);
+        return cached;
+      }
+    } catch (e) {
+      console.warn("读取 OCR 缓存失败", e);
+    }
+  }
+
+  const result = await recognize();
+
+  if (cacheKey && result.source !== 'failed') {
+    try {
+      const entry: CachedPage = { text: result.text, source: result.source, confidence: result.confidence };
+      await runRequest('readwrite', store => store.put(entry, cacheKey));
+    } catch (e) {
+      console.warn("写入 OCR 缓存失败", e);
+    }
+  }
+  return result;
+};
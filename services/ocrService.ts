@@ -1,17 +1,110 @@
 import { GoogleGenAI } from "@google/genai";
 import Tesseract from 'tesseract.js';
+import { OcrLanguage, OcrResult } from '../types';
+import { sleep } from '../utils/asyncUtils';
 
 // 确保 API Key 存在
 const apiKey = process.env.API_KEY;
 
+// === Tesseract Worker 池 ===
+// 每个 worker 初始化都要加载约 20MB 的语言模型，因此只创建一次，在所有页面和文档之间共享
+// 数量按 CPU 核数决定：留一个核给主线程渲染页面，并限制上限避免手机内存不足 (每个 worker 约 100MB+)
+const MAX_TESSERACT_WORKERS = 4;
+let tesseractScheduler: Tesseract.Scheduler | null = null;
+let schedulerInit: Promise<Tesseract.Scheduler> | null = null;
+let schedulerLanguage: OcrLanguage | null = null;
+
+// Tesseract 的 worker、WASM 内核与语言包都由应用自身提供（见 vite.config.ts），不依赖 CDN，
+// 语言包首次加载后由 tesseract.js 缓存到 IndexedDB，之后离线可用
+// 使用 self 而不是 window：OCR 在解析 Worker 中运行
+const OCR_ASSET_BASE = new URL(`${import.meta.env.BASE_URL}tesseract/`, self.location.href).href;
+const TESSERACT_WORKER_OPTIONS = {
+  workerPath: `${OCR_ASSET_BASE}worker.min.js`,
+  corePath: `${OCR_ASSET_BASE}core`,
+  langPath: `${OCR_ASSET_BASE}lang`,
+  cacheMethod: 'write'
+};
+
+// 各语言对应的 Tesseract 模型（中日文混合英文，便于识别夹杂的英文单词）
+const TESSERACT_LANGS: Record<OcrLanguage, string> = {
+  chi_sim: 'chi_sim+eng',
+  chi_tra: 'chi_tra+eng',
+  jpn: 'jpn+eng',
+  eng: 'eng'
+};
+
+// Gemini 提示词中的语言说明
+const GEMINI_LANGUAGE_HINTS: Record<OcrLanguage, string> = {
+  chi_sim: '文档为简体中文（可能夹杂英文），请确保汉字识别准确',
+  chi_tra: '文档为繁体中文（可能夹杂英文），请按原文输出繁体字，不要转换为简体',
+  jpn: '文档为日文（可能夹杂英文），请准确识别汉字、平假名和片假名，按原文输出，不要翻译',
+  eng: '文档为英文，请按原文输出，不要翻译'
+};
+
+export const getOcrPoolSize = (): number => {
+  const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 2;
+  return Math.max(1, Math.min(MAX_TESSERACT_WORKERS, cores - 1));
+};
+
+const getTesseractScheduler = async (language: OcrLanguage): Promise<Tesseract.Scheduler> => {
+  // 切换语言时释放旧的 worker 池，避免同时持有两套语言模型
+  if (schedulerLanguage !== language) {
+    await terminateOcrPool();
+    schedulerLanguage = language;
+  }
+  if (tesseractScheduler) return tesseractScheduler;
+  if (!schedulerInit) {
+    schedulerInit = (async () => {
+      const scheduler = Tesseract.createScheduler();
+      const size = getOcrPoolSize();
+      console.log(`正在初始化 Tesseract worker 池 (${size} 个 worker, ${TESSERACT_LANGS[language]})...`);
+      const workers = await Promise.all(
+        Array.from({ length: size }, () => Tesseract.createWorker(TESSERACT_LANGS[language], Tesseract.OEM.LSTM_ONLY, TESSERACT_WORKER_OPTIONS))
+      );
+      workers.forEach(worker => scheduler.addWorker(worker));
+      tesseractScheduler = scheduler;
+      return scheduler;
+    })().catch(err => {
+      // 初始化失败（例如语言包下载失败）时允许下次重试
+      schedulerInit = null;
+      throw err;
+    });
+  }
+  return schedulerInit;
+};
+
+// 释放所有 worker（页面卸载时调用）
+export const terminateOcrPool = async () => {
+  const pending = schedulerInit;
+  tesseractScheduler = null;
+  schedulerInit = null;
+  schedulerLanguage = null;
+  if (pending) {
+    try {
+      await (await pending).terminate();
+    } catch (e) {
+      // 初始化失败的池无需释放
+    }
+  }
+};
+
 // 使用 Gemini 2.5 Flash 进行高质量 OCR
 // 相比 Tesseract，AI 模型对中文、手写体、复杂排版的识别率极高
-export const performOCR = async (base64Image: string, engine: 'gemini' | 'tesseract' = 'gemini'): Promise<string> => {
-  if (!base64Image) return "";
+// 返回识别结果及其来源：识别出错时 failed 为 true（而不是静默返回空字符串），Tesseract 额外带置信度
+// signal 触发时抛出 AbortError（不视为识别失败）
+export const recognizeImage = async (
+  base64Image: string,
+  engine: 'gemini' | 'tesseract' = 'gemini',
+  language: OcrLanguage = 'chi_sim',
+  signal?: AbortSignal
+): Promise<OcrResult> => {
+  if (!base64Image) return { text: "", engine, failed: true };
+  signal?.throwIfAborted();
 
   // 1. 处理本地 OCR (Tesseract.js)
-  // 注意：第一次运行时会自动下载中文语言包 (chi_sim.traineddata, 约 20MB)，需要网络
+  // 语言包随应用部署，首次使用后缓存在本地，完全离线可用
   if (engine === 'tesseract') {
+     // Tesseract 任务一旦开始无法中断，只能在开始前检查；结果由调用方丢弃
      try {
          console.log("正在使用 Tesseract 进行本地 OCR (模式: Auto PSM)...");
          
@@ -19,27 +112,17 @@ export const performOCR = async (base64Image: string, engine: 'gemini' | 'tesser
             ? base64Image 
             : `data:image/png;base64,${base64Image}`; // 本地模式使用 PNG
 
-         // 关键修改：使用 chi_sim+eng 混合模型
-         // 并配置 tessedit_pageseg_mode 为 '3' (PSM.AUTO)
-         const result = await Tesseract.recognize(
-            imageUrl,
-            'chi_sim+eng', 
-            {
-                logger: m => {
-                    if (m.status === 'recognizing text') {
-                        // console.debug(`OCR Progress: ${(m.progress * 100).toFixed(0)}%`);
-                    }
-                }
-            }
-         );
+         // 通过共享的 worker 池识别，多页可以并行
+         const scheduler = await getTesseractScheduler(language);
+         const result = await scheduler.addJob('recognize', imageUrl);
          
-         let text = result.data.text.replace(/[\r\n]+/g, '\n');
-         text = text.replace(/([\u4e00-\u9fa5])\s+([\u4e00-\u9fa5])/g, '$1$2');
+         // 汉字/假名之间多余的空格由 cleanTextContent 按语言合并
+         const text = result.data.text.replace(/[\r\n]+/g, '\n');
          
-         return text.trim();
+         return { text: text.trim(), engine, confidence: result.data.confidence, failed: false };
      } catch (err) {
          console.error("本地 OCR (Tesseract) 失败:", err);
-         return "";
+         return { text: "", engine, failed: true };
      }
   }
 
@@ -69,14 +152,17 @@ export const performOCR = async (base64Image: string, engine: 'gemini' | 'tesser
               }
             },
             {
-              text: "OCR任务：请提取这张图片中的所有可见文字。要求：1.直接输出内容，不要任何开场白或解释。2.保持原文的段落结构。3.如果包含公式或乱码，尽量转为自然语言描述或忽略。4.如果是中文文档，请确保汉字识别准确。"
+              text: `OCR任务：请提取这张图片中的所有可见文字。要求：1.直接输出内容，不要任何开场白或解释。2.保持原文的段落结构。3.如果包含公式或乱码，尽量转为自然语言描述或忽略。4.${GEMINI_LANGUAGE_HINTS[language]}。`
             }
           ]
-        }
+        },
+        config: { abortSignal: signal }
       });
 
-      return response.text || "";
+      return { text: response.text || "", engine, failed: false };
     } catch (error: any) {
+      if (signal?.aborted) throw signal.reason;
+
       let isRateLimit = false;
       const msg = (error.message || '') + JSON.stringify(error);
       
@@ -88,16 +174,27 @@ export const performOCR = async (base64Image: string, engine: 'gemini' | 'tesser
          if (attempt < retries - 1) {
             const delay = 2000 * Math.pow(2, attempt); 
             console.warn(`Gemini OCR 限流 (429). 将在 ${delay}ms 后重试...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
+            await sleep(delay, signal);
             continue; 
          }
       }
 
       console.error("Gemini OCR Error:", error);
-      return "";
+      return { text: "", engine, failed: true };
     }
   }
-  return "";
+  return { text: "", engine, failed: true };
+};
+
+// 只需要文字时的简化接口
+export const performOCR = async (
+  base64Image: string,
+  engine: 'gemini' | 'tesseract' = 'gemini',
+  language: OcrLanguage = 'chi_sim',
+  signal?: AbortSignal
+): Promise<string> => {
+  if (!base64Image) return "";
+  return (await recognizeImage(base64Image, engine, language, signal)).text;
 };
 
 export const performFreeOCR = performOCR;
\ No newline at end of file
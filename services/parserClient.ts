@@ -0,0 +1,138 @@
+import { extractTextFromDocument } from './documentParser';
+import { ImageOrder } from '../utils/imageUtils';
+import { PageReport, ParsedDocument, ParseOptions, ParserRequest, ParserResponse, PreprocessOptions, ProgressCallback } from '../types';
+
+// === 主线程一侧的解析接口 ===
+// 请求发给 parserWorker.ts，进度与结果通过消息返回；接口与 documentParser 保持一致
+
+// EPUB 与 HTML 依赖 DOMParser，Worker 中不可用，仍在主线程解析（不涉及 OCR，耗时很短）
+const MAIN_THREAD_EXTS = ['epub', 'html', 'htm'];
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./parserWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ParserResponse>) => {
+      const response = event.data;
+      const request = pending.get(response.id);
+      if (!request) return;
+      if (response.type === 'progress') {
+        request.onProgress?.(response.progress);
+        return;
+      }
+      pending.delete(response.id);
+      if (response.type === 'result') request.resolve(response.result);
+      else request.reject(new Error(response.message));
+    };
+    worker.onerror = (event) => {
+      // Worker 崩溃（如内存不足）时，所有进行中的请求一并失败，下次请求重新创建
+      console.error("解析 Worker 出错:", event);
+      const error = new Error("文档解析进程意外终止，请重试。");
+      pending.forEach(request => request.reject(error));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+const runInWorker = <T>(
+  buildRequest: (id: number) => ParserRequest,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<T> => new Promise<T>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const id = nextRequestId++;
+  const target = getWorker();
+
+  // 取消后立即返回，Worker 中的任务在下一个检查点停止
+  const onAbort = () => {
+    if (!pending.delete(id)) return;
+    target.postMessage({ type: 'cancel', id } satisfies ParserRequest);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  // 请求结束后移除监听，长期复用的 signal 上不会越积越多
+  pending.set(id, {
+    resolve: (result) => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(result);
+    },
+    reject: (error) => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(error);
+    },
+    onProgress
+  });
+  target.postMessage(buildRequest(id));
+});
+
+export const parseDocumentInWorker = async (
+  file: File,
+  onProgress?: ProgressCallback,
+  options: ParseOptions = {}
+): Promise<ParsedDocument> => {
+  const fileType = file.name.split('.').pop()?.toLowerCase();
+  if (fileType && MAIN_THREAD_EXTS.includes(fileType)) {
+    return extractTextFromDocument(file, onProgress, options);
+  }
+  const { signal, ...workerOptions } = options;
+  return runInWorker(id => ({ type: 'parse-document', id, file, options: workerOptions }), signal, onProgress);
+};
+
+export const parseImagesInWorker = (
+  files: File[],
+  onProgress?: ProgressCallback,
+  options: ParseOptions = {},
+  order: ImageOrder = 'name'
+): Promise<ParsedDocument> => {
+  const { signal, ...workerOptions } = options;
+  return runInWorker(id => ({ type: 'parse-images', id, files, options: workerOptions, order }), signal, onProgress);
+};
+
+type PageRecognition = Pick<PageReport, 'text' | 'rawText' | 'source' | 'confidence'>;
+
+export const reocrPdfPageInWorker = (file: File, pageNumber: number, options: ParseOptions = {}): Promise<PageRecognition> => {
+  const { signal, ...workerOptions } = options;
+  return runInWorker(id => ({ type: 'reocr-pdf-page', id, file, pageNumber, options: workerOptions }), signal);
+};
+
+export const reocrImageInWorker = (file: File, options: ParseOptions = {}): Promise<PageRecognition> => {
+  const { signal, ...workerOptions } = options;
+  return runInWorker(id => ({ type: 'reocr-image', id, file, options: workerOptions }), signal);
+};
+
+// 预处理前后对比图（Base64 JPEG），pageNumber 为空时 file 是图片
+export const renderPreprocessPreviewInWorker = (
+  file: File,
+  pageNumber: number | null,
+  preprocess: PreprocessOptions
+): Promise<{ before: string; after: string }> =>
+  runInWorker(id => ({ type: 'preview-preprocess', id, file, pageNumber, preprocess }));
+
+// 在 Worker 中打开 PDF 读取页数，打开的文档留给随后的 parseDocumentInWorker 复用
+export const getPdfPageCountInWorker = (file: File): Promise<number> =>
+  runInWorker(id => ({ type: 'pdf-page-count', id, file }));
+
+// 页面卸载时结束 Worker（其中的 Tesseract worker 池随之释放）
+export const terminateParserWorker = () => {
+  const error = new Error("文档解析已中止。");
+  pending.forEach(request => request.reject(error));
+  pending.clear();
+  worker?.terminate();
+  worker = null;
+};
@@ -0,0 +1,59 @@
+// 文档解析 Worker：PDF 渲染 (OffscreenCanvas)、OCR 预处理、文本清洗和 OCR 调度都在这里完成，
+// 主线程只负责界面与音频播放，解析大文档时滚动和播放控制不再卡顿
+// 直接加载 pdf.js 的 worker 模块：pdf.js 检测到后会在本线程内解析，不再嵌套创建 Worker
+import 'pdfjs-dist/build/pdf.worker.min.mjs';
+import { extractTextFromDocument, extractTextFromImages, getPdfPageCount, renderPreprocessPreview, reocrImage, reocrPdfPage } from './documentParser';
+import { ParseProgress, ParserRequest, ParserResponse } from '../types';
+
+const post = (response: ParserResponse) => (self as unknown as Worker).postMessage(response);
+
+// 每个请求一个 AbortController，收到 cancel 消息时中止
+const controllers = new Map<number, AbortController>();
+
+self.addEventListener('message', async (event: MessageEvent<ParserRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  const { id } = request;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  const options = { ...('options' in request ? request.options : {}), signal: controller.signal };
+  const onProgress = (progress: ParseProgress) => post({ type: 'progress', id, progress });
+
+  try {
+    let result: unknown;
+    switch (request.type) {
+      case 'parse-document':
+        result = await extractTextFromDocument(request.file, onProgress, options);
+        break;
+      case 'parse-images':
+        result = await extractTextFromImages(request.files, onProgress, options, request.order);
+        break;
+      case 'reocr-pdf-page':
+        result = await reocrPdfPage(request.file, request.pageNumber, options);
+        break;
+      case 'reocr-image':
+        result = await reocrImage(request.file, options);
+        break;
+      case 'preview-preprocess':
+        result = await renderPreprocessPreview(request.file, request.pageNumber, request.preprocess);
+        break;
+      case 'pdf-page-count':
+        result = await getPdfPageCount(request.file);
+        break;
+    }
+    post({ type: 'result', id, result });
+  } catch (error: any) {
+    // 取消后主线程已不再等待结果，无需回传
+    if (!controller.signal.aborted) {
+      console.error(error);
+      post({ type: 'error', id, message: error?.message || "文档解析失败" });
+    }
+  } finally {
+    controllers.delete(id);
+  }
+});
@@ -1,9 +1,9 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 
-// 设置 worker Src，必须指向 CDN 或本地正确的 worker 文件
+// 设置 worker Src：使用随应用打包的本地 worker 文件，不依赖 CDN
 // 使用 .mjs 版本以支持 ES Module 动态导入，避免 "Failed to fetch dynamically imported module" 错误
-// 明确指定版本 4.10.38 以匹配 package.json，防止版本不一致
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.10.38/pdf.worker.min.mjs`;
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
 
 export const extractTextFromPDF = async (file: File): Promise<{ text: string; pageCount: number }> => {
   try {
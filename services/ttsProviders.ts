@@ -0,0 +1,192 @@
+import { GEMINI_TTS_MODEL, generateSpeechFromText } from './geminiService';
+import { decodeBase64 } from '../utils/audioUtils';
+import { HttpTtsConfig, SynthesizedAudio, TtsCapabilities, TtsProviderId } from '../types';
+
+// === 朗读引擎 ===
+// 两类引擎：
+// - audio：返回音频数据，由页面通过 AudioContext 播放，可以预加载和缓存（Gemini、自建 HTTP 服务）
+// - speech：引擎自己发声并回调朗读进度（浏览器 speechSynthesis）
+
+interface TtsProviderInfo {
+  id: TtsProviderId;
+  name: string;
+  description: string;
+  capabilities: TtsCapabilities;
+}
+
+export interface AudioTtsProvider extends TtsProviderInfo {
+  kind: 'audio';
+  // 模型标识，参与音频缓存键：同名声音换了模型或服务后不能复用旧音频
+  model: string;
+  synthesize: (text: string, voice: string, signal?: AbortSignal) => Promise<SynthesizedAudio>;
+}
+
+export interface SpeakOptions {
+  voice: SpeechSynthesisVoice | null; // null 表示跟随系统默认
+  rate: number;
+  onBoundary: (charIndex: number) => void;
+  onEnd: () => void;
+  onError: (error: string) => void;
+}
+
+export interface SpeechTtsProvider extends TtsProviderInfo {
+  kind: 'speech';
+  speak: (text: string, options: SpeakOptions) => void;
+  cancel: () => void;
+}
+
+export type TtsProvider = AudioTtsProvider | SpeechTtsProvider;
+
+// --- Gemini ---
+
+const GEMINI_SAMPLE_RATE = 24000;
+
+export const geminiTtsProvider: AudioTtsProvider = {
+  kind: 'audio',
+  id: 'gemini',
+  model: GEMINI_TTS_MODEL,
+  name: 'Gemini AI',
+  description: '高音质·有限额',
+  capabilities: {
+    voices: [
+      { id: 'Kore', name: 'Gemini - Kore (平衡)' },
+      { id: 'Zephyr', name: 'Gemini - Zephyr (温柔)' },
+      { id: 'Puck', name: 'Gemini - Puck (低沉)' },
+      { id: 'Fenrir', name: 'Gemini - Fenrir (激昂)' },
+      { id: 'Charon', name: 'Gemini - Charon (深沉)' },
+    ],
+    formats: ['pcm'],
+    // 片段越短首段出声越快，也越不容易超时
+    maxChunkChars: 200,
+    wordTimings: false
+  },
+  synthesize: async (text, voice) => {
+    const base64Audio = await generateSpeechFromText(text, voice);
+    return { data: decodeBase64(base64Audio).buffer as ArrayBuffer, format: 'pcm', sampleRate: GEMINI_SAMPLE_RATE };
+  }
+};
+
+// --- 浏览器语音 ---
+
+export const browserTtsProvider: SpeechTtsProvider = {
+  kind: 'speech',
+  id: 'browser',
+  name: '本地语音',
+  description: '免费·无限量',
+  capabilities: {
+    voices: [],
+    formats: [],
+    // 浏览器语音每段之间有停顿，片段尽量长
+    maxChunkChars: 2500,
+    wordTimings: true
+  },
+  speak: (text, { voice, rate, onBoundary, onEnd, onError }) => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = rate;
+    if (voice) {
+      utterance.voice = voice;
+    } else {
+      utterance.lang = 'zh-CN';
+    }
+
+    utterance.onboundary = (event) => {
+      if (event.name === 'word' || event.name === 'sentence') {
+        onBoundary(event.charIndex);
+      }
+    };
+    utterance.onend = () => onEnd();
+    utterance.onerror = (e) => {
+      // 主动取消（暂停、跳转）不算错误
+      if (e.error === 'interrupted' || e.error === 'canceled') return;
+      console.error("Browser TTS Error:", e.error, e);
+      onError(e.error);
+    };
+
+    window.speechSynthesis.speak(utterance);
+  },
+  cancel: () => window.speechSynthesis.cancel()
+};
+
+// --- OpenAI 兼容的 HTTP 服务 ---
+
+const HTTP_CONFIG_STORAGE_KEY = 'http_tts_config';
+
+export const DEFAULT_HTTP_TTS_CONFIG: HttpTtsConfig = {
+  baseUrl: 'http://localhost:8880',
+  apiKey: '',
+  model: 'tts-1',
+  voices: ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'],
+  format: 'mp3',
+  sampleRate: 24000,
+  maxChunkChars: 500
+};
+
+// 地址可以带或不带 /v1
+const speechEndpoint = (baseUrl: string): string => {
+  const base = baseUrl.trim().replace(/\/+$/, '');
+  return /\/v1$/.test(base) ? `${base}/audio/speech` : `${base}/v1/audio/speech`;
+};
+
+// fetchImpl 可替换为模拟实现，便于在没有真实服务时调试
+export const createHttpTtsProvider = (
+  config: HttpTtsConfig,
+  fetchImpl: typeof fetch = (input, init) => fetch(input, init)
+): AudioTtsProvider => ({
+  kind: 'audio',
+  id: 'http',
+  model: `${speechEndpoint(config.baseUrl)}#${config.model}#${config.format}`,
+  name: '自建服务',
+  description: 'OpenAI 兼容接口',
+  capabilities: {
+    voices: config.voices.map(voice => ({ id: voice, name: voice })),
+    formats: [config.format],
+    maxChunkChars: config.maxChunkChars,
+    wordTimings: false
+  },
+  synthesize: async (text, voice, signal) => {
+    if (!config.baseUrl.trim()) throw new Error("请先填写 TTS 服务地址");
+
+    let response: Response;
+    try {
+      response = await fetchImpl(speechEndpoint(config.baseUrl), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+        },
+        body: JSON.stringify({ model: config.model, input: text, voice, response_format: config.format }),
+        signal
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error("HTTP TTS request failed:", error);
+      throw new Error(`无法连接 TTS 服务 (${config.baseUrl})，请检查地址与跨域设置。`);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`TTS 服务返回错误 ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+    return { data: await response.arrayBuffer(), format: config.format, sampleRate: config.sampleRate };
+  }
+});
+
+export const loadHttpTtsConfig = (): HttpTtsConfig => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(HTTP_CONFIG_STORAGE_KEY) || 'null');
+    return saved ? { ...DEFAULT_HTTP_TTS_CONFIG, ...saved } : DEFAULT_HTTP_TTS_CONFIG;
+  } catch (e) {
+    return DEFAULT_HTTP_TTS_CONFIG;
+  }
+};
+
+export const saveHttpTtsConfig = (config: HttpTtsConfig) => {
+  localStorage.setItem(HTTP_CONFIG_STORAGE_KEY, JSON.stringify(config));
+};
+
+// 引擎列表，顺序即界面上的排列顺序
+export const getTtsProviders = (httpConfig: HttpTtsConfig): TtsProvider[] => [
+  geminiTtsProvider,
+  browserTtsProvider,
+  createHttpTtsProvider(httpConfig)
+];
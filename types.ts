@@ -16,4 +16,176 @@ export enum AppStatus {
 export interface AudioState {
   buffer: AudioBuffer | null;
   duration: number;
-}
\ No newline at end of file
+}
+
+// 文档章节（来自 PDF 书签或 EPUB 目录），offset 为章节在全文中的字符位置
+export interface DocumentChapter {
+  title: string;
+  offset: number;
+  level: number;
+}
+
+export interface OcrResult {
+  text: string;
+  engine: 'gemini' | 'tesseract';
+  confidence?: number; // 仅 Tesseract 提供，0 ~ 100
+  failed: boolean;
+}
+
+// 每页文字的来源：PDF 原生文字、本地 OCR、Gemini OCR，或识别失败
+export type PageSource = 'native' | 'tesseract' | 'gemini' | 'failed';
+
+export interface PageReport {
+  page: number; // PDF 页码，或图片批次中的序号（均从 1 开始）
+  label: string; // 显示名称，如 “第 3 页” 或图片文件名
+  source: PageSource;
+  confidence?: number;
+  offset: number; // 该页文字在全文中的起始位置
+  text: string; // 该页贡献的文字（已清洗），空字符串表示空白页
+  rawOffset?: number; // 该页在未应用清洗规则的全文（ParsedDocument.rawText）中的起始位置
+  rawText?: string; // 该页未应用清洗规则的文字
+}
+
+export interface ParsedDocument {
+  text: string;
+  chapters: DocumentChapter[];
+  pages?: PageReport[]; // 仅 PDF 与图片提供
+  rawText?: string; // 应用用户清洗规则之前的全文，供规则编辑器预览
+}
+
+// 页码范围，从 1 开始，首尾均包含
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+// OCR 识别语言：简体中文、繁体中文、日文（均混合英文）以及纯英文
+export type OcrLanguage = 'chi_sim' | 'chi_tra' | 'jpn' | 'eng';
+
+export interface ParseOptions {
+  ocrEngine?: 'gemini' | 'tesseract';
+  ocrLanguage?: OcrLanguage;
+  pageRange?: PageRange; // 仅对 PDF 生效，缺省为全部页面
+  signal?: AbortSignal; // 用于取消解析（含 OCR）
+  preprocess?: PreprocessOptions; // 本地 OCR 的图像预处理，缺省使用 DEFAULT_PREPROCESS
+  docxTables?: 'read' | 'skip'; // Word 表格逐行朗读或跳过，缺省朗读
+  cleaningRules?: CleaningRule[]; // 文本清洗规则，缺省使用内置规则
+}
+
+// 文本清洗规则：对解析出的文字执行正则替换（去水印、广告语、无意义行等）
+export interface CleaningRule {
+  id: string;
+  name: string;
+  pattern: string; // 正则表达式源码
+  flags: string; // 正则标志，如 'gm'；缺少 g 时自动补上
+  replacement: string; // 替换内容，支持 $1 等分组引用
+  enabled: boolean;
+  builtin?: boolean; // 内置规则只能启用或停用，不能修改或删除
+}
+
+// === 朗读引擎 ===
+
+export type TtsProviderId = 'gemini' | 'browser' | 'http';
+
+export interface TtsVoice {
+  id: string;
+  name: string;
+}
+
+export type TtsAudioFormat = 'pcm' | 'wav' | 'mp3';
+
+export interface TtsCapabilities {
+  voices: TtsVoice[]; // 固定的声音列表；浏览器语音由系统动态提供，此处为空
+  formats: TtsAudioFormat[]; // 返回的音频格式
+  maxChunkChars: number; // 单次合成的最大字数，决定切分片段的长度
+  wordTimings: boolean; // 能否报告朗读到的文字位置（用于精确高亮）
+}
+
+// 合成结果：pcm 为 16-bit 单声道裸数据，需给出采样率；wav/mp3 交给浏览器解码
+export interface SynthesizedAudio {
+  data: ArrayBuffer;
+  format: TtsAudioFormat;
+  sampleRate?: number;
+}
+
+// 合成音频缓存的占用情况
+export interface AudioCacheUsage {
+  entries: number;
+  bytes: number;
+  quotaBytes: number;
+}
+
+// 有声书导出的文件格式
+export type AudiobookFormat = 'wav' | 'mp3' | 'm4b';
+
+// 有声书导出进度：合成中、限速等待中、最终编码
+export interface AudiobookExportProgress {
+  phase: 'synthesizing' | 'waiting' | 'encoding';
+  current: number; // 已完成的片段数
+  total: number;
+}
+
+// 与导出音频同步的字幕 / 歌词格式
+export type SubtitleFormat = 'srt' | 'vtt' | 'lrc';
+
+// 一条字幕：起止时间与文字
+export interface SubtitleCue {
+  start: number; // 秒
+  end: number;
+  text: string;
+}
+
+// OpenAI 兼容的 /v1/audio/speech 接口（自建 TTS 服务）
+export interface HttpTtsConfig {
+  baseUrl: string; // 如 http://localhost:8880 或 http://localhost:8880/v1
+  apiKey: string;
+  model: string;
+  voices: string[];
+  format: TtsAudioFormat;
+  sampleRate: number; // 仅 pcm 使用
+  maxChunkChars: number;
+}
+
+// 发音词典词条：朗读时把 term 替换为 reading，显示与高亮仍使用原文
+export interface PronunciationEntry {
+  id: string;
+  term: string; // 原文中的词，如 "行长"、"API"
+  reading: string; // 拼音（"hang2 zhang3" 或 "háng zhǎng"）或替代写法（"A P I"）
+  enabled: boolean;
+}
+
+// 本地 OCR 图像预处理的各个步骤
+export interface PreprocessOptions {
+  contrast: boolean; // 对比度增强
+  deskew: boolean; // 检测倾斜并旋转纠正
+  cropBorders: boolean; // 裁掉深色边框
+  binarization: 'none' | 'otsu' | 'adaptive'; // 二值化方式
+}
+
+// 解析进度：每处理完一页（或一张图片、一个章节文件）回调一次
+export interface ParseProgress {
+  chunk: string; // 本次新增的文字，空白页为空字符串
+  current: number; // 已处理数量
+  total: number;
+  engine?: 'gemini' | 'tesseract'; // 当前页使用的 OCR 引擎，原生文字页为空
+}
+
+export type ProgressCallback = (progress: ParseProgress) => void;
+
+// === 解析 Worker 消息协议 (services/parserWorker.ts <-> services/parserClient.ts) ===
+// AbortSignal 无法跨线程传递，取消通过 cancel 消息完成
+export type WorkerParseOptions = Omit<ParseOptions, 'signal'>;
+
+export type ParserRequest =
+  | { type: 'parse-document'; id: number; file: File; options: WorkerParseOptions }
+  | { type: 'parse-images'; id: number; files: File[]; options: WorkerParseOptions; order: 'name' | 'time' }
+  | { type: 'reocr-pdf-page'; id: number; file: File; pageNumber: number; options: WorkerParseOptions }
+  | { type: 'reocr-image'; id: number; file: File; options: WorkerParseOptions }
+  | { type: 'preview-preprocess'; id: number; file: File; pageNumber: number | null; preprocess: PreprocessOptions }
+  | { type: 'pdf-page-count'; id: number; file: File }
+  | { type: 'cancel'; id: number };
+
+export type ParserResponse =
+  | { type: 'progress'; id: number; progress: ParseProgress }
+  | { type: 'result'; id: number; result: any }
+  | { type: 'error'; id: number; message: string };
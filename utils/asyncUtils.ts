@@ -0,0 +1,60 @@
+// 并发执行任务，但严格按输入顺序交付结果
+// 用于 OCR 流水线：后面的页面可以提前识别，但文字必须按页码顺序流式输出
+export async function pipelineInOrder<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>,
+  onResult: (result: R, item: T, index: number) => void | Promise<void>
+): Promise<void> {
+  const limit = Math.max(1, concurrency);
+  const inFlight: { index: number; promise: Promise<R> }[] = [];
+
+  const deliverHead = async () => {
+    const head = inFlight.shift()!;
+    await onResult(await head.promise, items[head.index], head.index);
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    const promise = task(items[i], i);
+    // 提前挂上空的 catch，避免排在后面的任务失败时触发 unhandledrejection；
+    // 错误仍会在按序 await 时抛出
+    promise.catch(() => {});
+    inFlight.push({ index: i, promise });
+
+    if (inFlight.length >= limit) {
+      await deliverHead();
+    }
+  }
+
+  while (inFlight.length > 0) {
+    await deliverHead();
+  }
+}
+
+// 可取消的等待：signal 触发时立即以其 reason (AbortError) 拒绝
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// 空闲时执行（不支持 requestIdleCallback 的浏览器如 Safari 退回 setTimeout），避免长计算打断播放与动画
+export function runWhenIdle(callback: () => void): void {
+  if (typeof requestIdleCallback === 'function') {
+    requestIdleCallback(callback, { timeout: 1000 });
+  } else {
+    setTimeout(callback, 0);
+  }
+}
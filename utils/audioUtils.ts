@@ -1,3 +1,4 @@
+import { SynthesizedAudio } from '../types';
 
 // 将 Base64 字符串解码为 Uint8Array
 export function decodeBase64(base64: string): Uint8Array {
@@ -15,7 +16,7 @@ export function decodeBase64(base64: string): Uint8Array {
 // 将原始 PCM 数据解码为 AudioBuffer
 export async function decodeAudioData(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number = 24000,
   numChannels: number = 1
 ): Promise<AudioBuffer> {
@@ -42,3 +43,22 @@ export async function decodeAudioData(
   }
   return buffer;
 }
+
+// 将 TTS 引擎返回的音频解码为 AudioBuffer：PCM 手动转换，WAV/MP3 交给浏览器
+export async function decodeSynthesizedAudio(audio: SynthesizedAudio, ctx: BaseAudioContext): Promise<AudioBuffer> {
+  if (audio.format === 'pcm') {
+    return decodeAudioData(new Uint8Array(audio.data), ctx, audio.sampleRate ?? 24000);
+  }
+  // decodeAudioData 会转移（清空）传入的 buffer，复制一份以免影响调用方保留的数据
+  return ctx.decodeAudioData(audio.data.slice(0));
+}
+
+// -1.0 ~ 1.0 的浮点采样转为 16-bit PCM（超出范围的截断）
+export function floatToInt16(samples: Float32Array): Int16Array<ArrayBuffer> {
+  const result = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    result[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return result;
+}
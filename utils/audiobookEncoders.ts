@@ -0,0 +1,149 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { AudiobookFormat } from '../types';
+import { floatToInt16 } from './audioUtils';
+import { M4bChapter, muxM4b } from './m4bMuxer';
+
+// === 有声书编码 ===
+// 片段逐个追加，边合成边编码：MP3/M4B 内存里只保留压缩后的数据，长书也不会占满内存
+// WAV 没有压缩，10 小时的单声道 24kHz 约 1.7GB，仅适合短文档
+
+export interface AudiobookEncoder {
+  append: (samples: Float32Array<ArrayBuffer>) => void;
+  finish: (chapters: M4bChapter[], title: string) => Promise<Blob>;
+}
+
+const MP3_BITRATE_KBPS = 64;
+const AAC_BITRATE = 64000;
+
+const createWavEncoder = (sampleRate: number): AudiobookEncoder => {
+  const parts: Int16Array<ArrayBuffer>[] = [];
+  let dataBytes = 0;
+
+  return {
+    append: (samples) => {
+      const pcm = floatToInt16(samples);
+      parts.push(pcm);
+      dataBytes += pcm.byteLength;
+    },
+    finish: async () => {
+      if (dataBytes + 36 > 0xffffffff) throw new Error("音频过长，超出 WAV 文件大小上限 (4GB)，请改用 MP3 格式。");
+      const header = new DataView(new ArrayBuffer(44));
+      const writeText = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+      };
+      writeText(0, 'RIFF');
+      header.setUint32(4, 36 + dataBytes, true);
+      writeText(8, 'WAVE');
+      writeText(12, 'fmt ');
+      header.setUint32(16, 16, true);
+      header.setUint16(20, 1, true); // PCM
+      header.setUint16(22, 1, true); // 单声道
+      header.setUint32(24, sampleRate, true);
+      header.setUint32(28, sampleRate * 2, true);
+      header.setUint16(32, 2, true);
+      header.setUint16(34, 16, true);
+      writeText(36, 'data');
+      header.setUint32(40, dataBytes, true);
+      return new Blob([header.buffer, ...parts], { type: 'audio/wav' });
+    }
+  };
+};
+
+const createMp3Encoder = (sampleRate: number): AudiobookEncoder => {
+  const encoder = new Mp3Encoder(1, sampleRate, MP3_BITRATE_KBPS);
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+
+  return {
+    append: (samples) => {
+      const frame = encoder.encodeBuffer(floatToInt16(samples));
+      // 复制一份，避免编码器复用内部缓冲区
+      if (frame.length > 0) parts.push(frame.slice());
+    },
+    finish: async () => {
+      const tail = encoder.flush();
+      if (tail.length > 0) parts.push(tail.slice());
+      return new Blob(parts, { type: 'audio/mpeg' });
+    }
+  };
+};
+
+// 编码器未给出 AudioSpecificConfig 时按 AAC-LC 自行构造
+const buildAudioSpecificConfig = (sampleRate: number, channels: number): Uint8Array => {
+  const rates = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+  const rateIndex = rates.indexOf(sampleRate);
+  if (rateIndex < 0) throw new Error(`AAC 不支持采样率 ${sampleRate}`);
+  const objectType = 2; // AAC-LC
+  return new Uint8Array([(objectType << 3) | (rateIndex >> 1), ((rateIndex & 1) << 7) | (channels << 3)]);
+};
+
+const createM4bEncoder = async (sampleRate: number): Promise<AudiobookEncoder> => {
+  if (typeof AudioEncoder === 'undefined') {
+    throw new Error("当前浏览器不支持 AAC 编码 (WebCodecs)，请改用 MP3 或 WAV 格式。");
+  }
+  const config: AudioEncoderConfig = { codec: 'mp4a.40.2', sampleRate, numberOfChannels: 1, bitrate: AAC_BITRATE };
+  const support = await AudioEncoder.isConfigSupported(config);
+  if (!support.supported) {
+    throw new Error("当前浏览器不支持 AAC 编码，请改用 MP3 或 WAV 格式。");
+  }
+
+  const frames: Uint8Array<ArrayBuffer>[] = [];
+  let audioSpecificConfig: Uint8Array | null = null;
+  let encodeError: DOMException | null = null;
+  let writtenFrames = 0;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      frames.push(data);
+      const description = metadata?.decoderConfig?.description;
+      if (description && !audioSpecificConfig) {
+        audioSpecificConfig = ArrayBuffer.isView(description)
+          ? new Uint8Array(description.buffer.slice(description.byteOffset, description.byteOffset + description.byteLength))
+          : new Uint8Array(description.slice(0));
+      }
+    },
+    error: (error) => {
+      console.error("AAC encode error:", error);
+      encodeError = error;
+    }
+  });
+  encoder.configure(config);
+
+  return {
+    append: (samples) => {
+      if (encodeError) throw encodeError;
+      const data = new AudioData({
+        format: 'f32-planar',
+        sampleRate,
+        numberOfChannels: 1,
+        numberOfFrames: samples.length,
+        timestamp: Math.round((writtenFrames / sampleRate) * 1e6),
+        data: samples
+      });
+      encoder.encode(data);
+      data.close();
+      writtenFrames += samples.length;
+    },
+    finish: async (chapters, title) => {
+      await encoder.flush();
+      encoder.close();
+      if (encodeError) throw encodeError;
+      return muxM4b({
+        sampleRate,
+        channels: 1,
+        frames,
+        audioSpecificConfig: audioSpecificConfig ?? buildAudioSpecificConfig(sampleRate, 1),
+        bitrate: AAC_BITRATE,
+        chapters,
+        title
+      });
+    }
+  };
+};
+
+export const createAudiobookEncoder = async (format: AudiobookFormat, sampleRate: number): Promise<AudiobookEncoder> => {
+  if (format === 'm4b') return createM4bEncoder(sampleRate);
+  if (format === 'mp3') return createMp3Encoder(sampleRate);
+  return createWavEncoder(sampleRate);
+};
@@ -0,0 +1,190 @@
+import { CleaningRule } from '../types';
+
+// === 文本清洗规则 ===
+// 扫描 App 水印、公众号提示等杂质因来源而异，由用户维护正则替换规则；内置规则可以停用
+// 规则按列表顺序依次执行，保存在 localStorage，并可导出/导入为 JSON
+
+const STORAGE_KEY = 'cleaning_rules';
+const EXPORT_VERSION = 1;
+
+export const DEFAULT_CLEANING_RULES: CleaningRule[] = [
+  {
+    id: 'builtin-scanner-watermark',
+    name: '扫描 App 水印',
+    pattern: 'CS\\s*扫描全能王|3亿人都在用的扫描App|全能扫描王',
+    flags: 'gi',
+    replacement: '',
+    enabled: true,
+    builtin: true
+  },
+  {
+    id: 'builtin-social-prompt',
+    name: '关注公众号等推广语',
+    pattern: '(关注|搜索|扫码).{0,10}(微信|公众号|微博)',
+    flags: 'g',
+    replacement: '',
+    enabled: true,
+    builtin: true
+  },
+  {
+    id: 'builtin-qr-code',
+    name: '“二维码”字样',
+    pattern: '二维码',
+    flags: 'g',
+    replacement: '',
+    enabled: true,
+    builtin: true
+  },
+  {
+    // 试卷、习题书中单独成行的选项字母，如 "A B C D"
+    id: 'builtin-answer-key-lines',
+    name: '答案选项行',
+    pattern: '^[ \\t]*[A-Ha-h](?:[A-Ha-h \\t]{0,7}[A-Ha-h])?[ \\t]*$\\n?',
+    flags: 'gm',
+    replacement: '',
+    enabled: true,
+    builtin: true
+  },
+  {
+    id: 'builtin-separator-lines',
+    name: '分隔线',
+    pattern: '^[ \\t]*[/\\-—|@][/\\-—|@ \\t]*$\\n?',
+    flags: 'gm',
+    replacement: '',
+    enabled: true,
+    builtin: true
+  }
+];
+
+// 规则统一按全局替换执行；正则无效时返回 null
+export const compileCleaningRule = (rule: CleaningRule): RegExp | null => {
+  try {
+    return new RegExp(rule.pattern, rule.flags.includes('g') ? rule.flags : rule.flags + 'g');
+  } catch (e) {
+    return null;
+  }
+};
+
+export const validateCleaningRule = (rule: CleaningRule): string | null => {
+  if (!rule.name.trim()) return "请填写规则名称";
+  if (!rule.pattern) return "请填写正则表达式";
+  if (!/^[gimsuy]*$/.test(rule.flags)) return "正则标志只能包含 g、i、m、s、u、y";
+  if (!compileCleaningRule(rule)) return "正则表达式无效";
+  return null;
+};
+
+export const applyCleaningRules = (text: string, rules: CleaningRule[]): string => {
+  let result = text;
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const regex = compileCleaningRule(rule);
+    if (regex) result = result.replace(regex, rule.replacement);
+  }
+  return result;
+};
+
+// === 预览 ===
+
+export interface CleaningRuleMatch {
+  before: string; // 命中处及其上下文
+  after: string; // 替换后的同一段文字
+}
+
+export interface CleaningRuleStats {
+  id: string;
+  count: number;
+  samples: CleaningRuleMatch[];
+}
+
+const PREVIEW_CONTEXT = 12;
+const PREVIEW_SAMPLES = 3;
+
+// 在文本上依次执行规则，统计每条规则的命中次数并截取前几处命中作为示例
+export const previewCleaningRules = (text: string, rules: CleaningRule[]): { text: string; stats: CleaningRuleStats[] } => {
+  let current = text;
+  const stats: CleaningRuleStats[] = [];
+
+  for (const rule of rules) {
+    const regex = rule.enabled ? compileCleaningRule(rule) : null;
+    if (!regex) continue;
+
+    const samples: CleaningRuleMatch[] = [];
+    let count = 0;
+    for (const match of current.matchAll(regex)) {
+      // 空匹配（如 ^ 之类的零宽正则）不计入
+      if (!match[0]) continue;
+      count++;
+      if (samples.length >= PREVIEW_SAMPLES) continue;
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const prefix = current.slice(Math.max(0, start - PREVIEW_CONTEXT), start);
+      const suffix = current.slice(end, end + PREVIEW_CONTEXT);
+      const single = new RegExp(regex.source, regex.flags.replace('g', ''));
+      samples.push({
+        before: prefix + match[0] + suffix,
+        after: prefix + match[0].replace(single, rule.replacement) + suffix
+      });
+    }
+
+    stats.push({ id: rule.id, count, samples });
+    current = current.replace(regex, rule.replacement);
+  }
+
+  return { text: current, stats };
+};
+
+// === 持久化 ===
+
+const isCleaningRule = (value: any): value is CleaningRule =>
+  !!value && typeof value.id === 'string' && typeof value.name === 'string' && typeof value.pattern === 'string'
+  && typeof value.flags === 'string' && typeof value.replacement === 'string' && typeof value.enabled === 'boolean';
+
+// 内置规则以代码为准（后续版本可能调整正则），只沿用保存的启用状态；自定义规则排在内置规则之后
+const mergeWithBuiltins = (saved: CleaningRule[]): CleaningRule[] => {
+  const savedById = new Map(saved.map(rule => [rule.id, rule]));
+  const builtins = DEFAULT_CLEANING_RULES.map(rule => ({
+    ...rule,
+    enabled: savedById.get(rule.id)?.enabled ?? rule.enabled
+  }));
+  const custom = saved
+    .filter(rule => !DEFAULT_CLEANING_RULES.some(builtin => builtin.id === rule.id))
+    .map(rule => ({ ...rule, builtin: false }));
+  return [...builtins, ...custom];
+};
+
+export const loadCleaningRules = (): CleaningRule[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return mergeWithBuiltins(Array.isArray(saved) ? saved.filter(isCleaningRule) : []);
+  } catch (e) {
+    return mergeWithBuiltins([]);
+  }
+};
+
+export const saveCleaningRules = (rules: CleaningRule[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
+
+export const exportCleaningRules = (rules: CleaningRule[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, rules }, null, 2);
+
+export const importCleaningRules = (json: string): CleaningRule[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error("无法读取规则文件：不是有效的 JSON。");
+  }
+  const rules = Array.isArray(data) ? data : data?.rules;
+  if (!Array.isArray(rules) || !rules.every(isCleaningRule)) {
+    throw new Error("规则文件格式不正确。");
+  }
+  // 与编辑器保存时的检查一致：停用的规则可以暂时无效，应用时会被跳过
+  const invalid = rules.find(rule => rule.enabled && validateCleaningRule(rule));
+  if (invalid) {
+    throw new Error(`规则“${invalid.name}”无效：${validateCleaningRule(invalid)}`);
+  }
+  return mergeWithBuiltins(rules);
+};
+
+export const createCleaningRuleId = () => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
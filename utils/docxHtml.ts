@@ -0,0 +1,169 @@
+// === mammoth 输出的 HTML -> 朗读用的块序列 ===
+// DOCX 在解析 Worker 中处理，Worker 里没有 DOMParser；mammoth 生成的 HTML 结构简单且规范
+// （标签成对、属性值已转义），用一个轻量的标签扫描即可还原标题、段落、列表、表格和图片的顺序
+
+export type DocxBlock =
+  | { type: 'text'; text: string }
+  | { type: 'heading'; text: string; level: number } // level 从 0 开始 (h1 = 0)
+  | { type: 'image'; src: string }; // mammoth 默认把图片内嵌为 data URI
+
+export type DocxTableMode = 'read' | 'skip';
+
+const TOKEN_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>|([^<]+)/g;
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code] ?? entity;
+  });
+
+const readAttribute = (attributes: string, name: string): string | null => {
+  const match = attributes.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeEntities(match[1]) : null;
+};
+
+// 表格单元格之间的分隔，朗读时形成短停顿
+const CELL_SEPARATOR = '，';
+
+export function parseMammothHtml(html: string, tableMode: DocxTableMode = 'read'): DocxBlock[] {
+  const blocks: DocxBlock[] = [];
+  let buffer = '';
+  let headingLevel: number | null = null;
+  // 列表项的序号前缀，等到该项的文字出现时再加上（列表项内可能还嵌套 <p>）
+  let listPrefix = '';
+  const lists: { ordered: boolean; counter: number }[] = [];
+  let tableDepth = 0;
+  let rowCells: string[] | null = null;
+  // 单元格内的图片排在该行文字之后
+  let rowImages: DocxBlock[] = [];
+  // 脚注引用 [1] 和脚注末尾的返回箭头不朗读
+  let skipLinkDepth = 0;
+
+  const inCell = () => rowCells !== null;
+
+  const flush = () => {
+    const text = buffer.replace(/[ \t ]+/g, ' ').split('\n').map(line => line.trim()).join('\n').trim();
+    buffer = '';
+    if (!text) return;
+    if (headingLevel !== null) {
+      blocks.push({ type: 'heading', text, level: headingLevel });
+    } else {
+      blocks.push({ type: 'text', text: listPrefix + text });
+      listPrefix = '';
+    }
+  };
+
+  for (const match of html.matchAll(TOKEN_PATTERN)) {
+    const [, closing, rawTag, attributes, text] = match;
+
+    if (text !== undefined) {
+      if (skipLinkDepth > 0 || (tableDepth > 0 && tableMode === 'skip')) continue;
+      buffer += decodeEntities(text);
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    const isOpen = !closing;
+
+    // 表格：跳过模式下忽略整张表（含嵌套表格）；朗读模式下只有最外层表格按行拆分
+    if (tag === 'table') {
+      if (isOpen) {
+        if (tableDepth === 0) flush();
+        tableDepth++;
+      } else {
+        tableDepth = Math.max(0, tableDepth - 1);
+      }
+      continue;
+    }
+    if (tableDepth > 0 && tableMode === 'skip') continue;
+
+    if (tableDepth === 1 && tag === 'tr') {
+      if (isOpen) {
+        flush();
+        rowCells = [];
+      } else if (rowCells) {
+        const row = rowCells.filter(cell => cell.length > 0).join(CELL_SEPARATOR);
+        rowCells = null;
+        if (row) blocks.push({ type: 'text', text: row });
+        blocks.push(...rowImages);
+        rowImages = [];
+      }
+      continue;
+    }
+    if (tableDepth === 1 && (tag === 'td' || tag === 'th')) {
+      if (isOpen) {
+        buffer = '';
+      } else if (rowCells) {
+        rowCells.push(buffer.replace(/\s+/g, ' ').trim());
+        buffer = '';
+      }
+      continue;
+    }
+
+    if (tag === 'a') {
+      const href = readAttribute(attributes, 'href') || '';
+      if (isOpen && /^#(footnote|endnote)-/.test(href)) skipLinkDepth++;
+      else if (!isOpen && skipLinkDepth > 0) skipLinkDepth--;
+      continue;
+    }
+
+    if (tag === 'img') {
+      const src = readAttribute(attributes, 'src');
+      if (!src) continue;
+      if (inCell()) {
+        rowImages.push({ type: 'image', src });
+      } else {
+        flush();
+        blocks.push({ type: 'image', src });
+      }
+      continue;
+    }
+
+    if (tag === 'br') {
+      buffer += inCell() ? ' ' : '\n';
+      continue;
+    }
+
+    // 单元格内的段落、标题、列表只作为空格分隔，整行仍合并朗读
+    if (inCell() || tableDepth > 1) {
+      if (/^(p|h[1-6]|li|ul|ol)$/.test(tag)) buffer += ' ';
+      continue;
+    }
+
+    const heading = tag.match(/^h([1-6])$/);
+    if (heading) {
+      flush();
+      headingLevel = isOpen ? Number(heading[1]) - 1 : null;
+      continue;
+    }
+
+    if (tag === 'ul' || tag === 'ol') {
+      flush();
+      if (isOpen) lists.push({ ordered: tag === 'ol', counter: 0 });
+      else lists.pop();
+      continue;
+    }
+
+    if (tag === 'li') {
+      flush();
+      listPrefix = '';
+      if (isOpen) {
+        const list = lists[lists.length - 1];
+        if (list?.ordered) listPrefix = `${++list.counter}. `;
+      }
+      continue;
+    }
+
+    if (tag === 'p') {
+      flush();
+    }
+  }
+
+  flush();
+  return blocks;
+}
@@ -0,0 +1,61 @@
+// 块级元素：遇到它们时需要换行，保证段落结构不被压成一行
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'dd', 'div', 'dl', 'dt', 'figcaption',
+  'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li',
+  'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'tr', 'ul'
+]);
+
+// 这些元素的内容不应该被朗读
+const SKIP_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'svg', 'math']);
+
+// 将 DOM 节点转为适合朗读的纯文本：保留段落换行，丢弃标签和脚本
+export function htmlToText(root: Node): string {
+  const parts: string[] = [];
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      // HTML 中的连续空白只算一个空格
+      parts.push((node.textContent || '').replace(/\s+/g, ' '));
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const tag = (node as Element).localName.toLowerCase();
+    if (SKIP_TAGS.has(tag)) return;
+
+    if (tag === 'br') {
+      parts.push('\n');
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) parts.push('\n');
+    // 表格单元格之间用空格隔开，避免相邻单元格文字粘连
+    if (tag === 'td' || tag === 'th') parts.push(' ');
+
+    node.childNodes.forEach(walk);
+
+    if (isBlock) parts.push('\n');
+  };
+
+  walk(root);
+
+  return parts.join('')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// 解析 (X)HTML 字符串。EPUB 章节是严格的 XHTML，但不少文件并不规范，解析失败时退回宽松的 HTML 模式
+export function parseHtmlDocument(markup: string, preferXml: boolean = false): Document {
+  const parser = new DOMParser();
+  if (preferXml) {
+    const xmlDoc = parser.parseFromString(markup, 'application/xhtml+xml');
+    if (!xmlDoc.getElementsByTagName('parsererror').length) {
+      return xmlDoc;
+    }
+  }
+  return parser.parseFromString(markup, 'text/html');
+}
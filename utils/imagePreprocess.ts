@@ -0,0 +1,247 @@
+import { PreprocessOptions } from '../types';
+
+// === 本地 OCR 图像预处理 ===
+// 手机拍摄的书页常见倾斜、阴影和深色边框，直接交给 Tesseract 识别率很低
+// 流程：灰度 (+对比度) -> 纠偏 -> 裁掉深色边框 -> 二值化，每一步均可单独开关
+// 全部基于 OffscreenCanvas 与像素数组，可在解析 Worker 中运行
+
+export const DEFAULT_PREPROCESS: PreprocessOptions = {
+  contrast: true,
+  deskew: true,
+  cropBorders: true,
+  binarization: 'adaptive'
+};
+
+// 缓存键的一部分：预处理设置不同，识别结果也不同
+export const describePreprocess = (options: PreprocessOptions): string =>
+  `${options.contrast ? 'c' : ''}${options.deskew ? 'd' : ''}${options.cropBorders ? 'b' : ''}-${options.binarization}`;
+
+interface GrayImage {
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray; // 每像素一个字节
+}
+
+// 纠偏搜索范围与步长（度）
+const MAX_SKEW = 5;
+const SKEW_STEP = 0.25;
+// 小于此角度不旋转，避免无谓的插值模糊
+const MIN_SKEW = 0.3;
+// 对比度调整因子（与原先的预处理一致）
+const CONTRAST = 30;
+
+const readGray = (canvas: OffscreenCanvas, contrast: boolean): GrayImage => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const pixels = new Uint8ClampedArray(canvas.width * canvas.height);
+  const factor = (259 * (CONTRAST + 255)) / (255 * (259 - CONTRAST));
+
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    const gray = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    // Uint8ClampedArray 会自动截断到 0-255
+    pixels[p] = contrast ? factor * (gray - 128) + 128 : gray;
+  }
+  return { width: canvas.width, height: canvas.height, pixels };
+};
+
+const grayToCanvas = ({ width, height, pixels }: GrayImage): OffscreenCanvas => {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  const imageData = ctx.createImageData(width, height);
+  const { data } = imageData;
+  for (let p = 0, i = 0; p < pixels.length; p++, i += 4) {
+    data[i] = data[i + 1] = data[i + 2] = pixels[p];
+    data[i + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+// Otsu：选取使前景/背景类间方差最大的全局阈值
+export const otsuThreshold = (pixels: Uint8ClampedArray): number => {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < pixels.length; i++) histogram[pixels[i]]++;
+
+  let total = 0;
+  for (let t = 0; t < 256; t++) total += t * histogram[t];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = 0;
+  let threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = pixels.length - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (total - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+const binarizeOtsu = (image: GrayImage): GrayImage => {
+  const threshold = otsuThreshold(image.pixels);
+  const pixels = image.pixels.map(value => (value <= threshold ? 0 : 255));
+  return { ...image, pixels };
+};
+
+// 自适应阈值 (Bradley)：每个像素与周围窗口的平均亮度比较，能消除阴影和光照不均
+// 用积分图计算窗口均值，复杂度与窗口大小无关
+// 积分图用 Float64Array：整页累加和可达 255 × 像素数，超过约 1680 万像素时会溢出 Uint32
+const binarizeAdaptive = (image: GrayImage): GrayImage => {
+  const { width, height, pixels } = image;
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += pixels[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  // 窗口约为图片短边的 1/16，足够覆盖几个字符
+  const half = Math.max(7, Math.round(Math.min(width, height) / 32));
+  const sensitivity = 0.15;
+  const result = new Uint8ClampedArray(pixels.length);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const area = (x1 - x0) * (y1 - y0);
+      result[y * width + x] = pixels[y * width + x] * area < sum * (1 - sensitivity) ? 0 : 255;
+    }
+  }
+  return { width, height, pixels: result };
+};
+
+// 投影法检测倾斜角：按候选角度把深色像素投影到纵轴，文字行对齐时投影的起伏最大
+// 在缩小的图上计算，返回角度（度），正值表示文字行向右下倾斜
+export const detectSkewAngle = (image: GrayImage): number => {
+  const { width, height, pixels } = image;
+  const step = Math.max(1, Math.round(Math.max(width, height) / 1000));
+  const threshold = otsuThreshold(pixels);
+
+  const points: number[] = [];
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      if (pixels[y * width + x] <= threshold) points.push(x, y);
+    }
+  }
+  // 空白页或几乎全黑的页面没有可靠的文字行
+  const dotCount = points.length / 2;
+  const sampleCount = Math.ceil(width / step) * Math.ceil(height / step);
+  if (dotCount < 100 || dotCount > sampleCount * 0.5) return 0;
+
+  const scoreAngle = (degrees: number) => {
+    const tan = Math.tan((degrees * Math.PI) / 180);
+    const offset = width * Math.abs(tan);
+    const bins = new Float64Array(Math.ceil((height + offset * 2) / step) + 1);
+    for (let i = 0; i < points.length; i += 2) {
+      const projected = points[i + 1] - points[i] * tan + offset;
+      bins[Math.floor(projected / step)]++;
+    }
+    let score = 0;
+    for (let i = 1; i < bins.length; i++) {
+      score += (bins[i] - bins[i - 1]) ** 2;
+    }
+    return score;
+  };
+
+  let bestAngle = 0;
+  let bestScore = scoreAngle(0);
+  for (let angle = -MAX_SKEW; angle <= MAX_SKEW; angle += SKEW_STEP) {
+    const score = scoreAngle(angle);
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+};
+
+const rotateImage = (image: GrayImage, degrees: number): GrayImage => {
+  const source = grayToCanvas(image);
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  // 旋转后露出的角落填白，避免被当成文字或边框
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((-degrees * Math.PI) / 180);
+  ctx.drawImage(source, -canvas.width / 2, -canvas.height / 2);
+  return readGray(canvas, false);
+};
+
+// 从四边向内裁掉深色边框（拍照时书页外的桌面、扫描仪盖板阴影），每边最多裁 20%
+const cropDarkBorders = (image: GrayImage): GrayImage => {
+  const { width, height, pixels } = image;
+  const threshold = otsuThreshold(pixels);
+  const darkRatio = (count: number, total: number) => count / total > 0.5;
+
+  const isDarkRow = (y: number) => {
+    let dark = 0;
+    for (let x = 0; x < width; x++) if (pixels[y * width + x] <= threshold) dark++;
+    return darkRatio(dark, width);
+  };
+  const isDarkColumn = (x: number, top: number, bottom: number) => {
+    let dark = 0;
+    for (let y = top; y < bottom; y++) if (pixels[y * width + x] <= threshold) dark++;
+    return darkRatio(dark, bottom - top);
+  };
+
+  const maxRows = Math.floor(height * 0.2);
+  const maxColumns = Math.floor(width * 0.2);
+  let top = 0;
+  while (top < maxRows && isDarkRow(top)) top++;
+  let bottom = height;
+  while (height - bottom < maxRows && isDarkRow(bottom - 1)) bottom--;
+  let left = 0;
+  while (left < maxColumns && isDarkColumn(left, top, bottom)) left++;
+  let right = width;
+  while (width - right < maxColumns && isDarkColumn(right - 1, top, bottom)) right--;
+
+  if (top === 0 && left === 0 && bottom === height && right === width) return image;
+
+  const croppedWidth = right - left;
+  const cropped = new Uint8ClampedArray(croppedWidth * (bottom - top));
+  for (let y = top; y < bottom; y++) {
+    cropped.set(pixels.subarray(y * width + left, y * width + right), (y - top) * croppedWidth);
+  }
+  return { width: croppedWidth, height: bottom - top, pixels: cropped };
+};
+
+// 对渲染好的页面执行预处理，返回新的 canvas（尺寸可能因裁边而变化）
+export const preprocessForOcr = (canvas: OffscreenCanvas, options: PreprocessOptions): OffscreenCanvas => {
+  let image = readGray(canvas, options.contrast);
+
+  if (options.deskew) {
+    const angle = detectSkewAngle(image);
+    if (Math.abs(angle) >= MIN_SKEW) {
+      image = rotateImage(image, angle);
+    }
+  }
+
+  if (options.cropBorders) {
+    image = cropDarkBorders(image);
+  }
+
+  if (options.binarization === 'otsu') {
+    image = binarizeOtsu(image);
+  } else if (options.binarization === 'adaptive') {
+    image = binarizeAdaptive(image);
+  }
+
+  return grayToCanvas(image);
+};
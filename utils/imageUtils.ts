@@ -0,0 +1,141 @@
+export type ImageOrder = 'name' | 'time';
+
+const IMAGE_EXTS = ['.jpg', '.jpeg', '.png', '.webp', '.bmp', '.gif', '.heic', '.heif'];
+
+export function isImageFile(file: File): boolean {
+  if (file.type.startsWith('image/')) return true;
+  const ext = file.name.substring(file.name.lastIndexOf('.')).toLowerCase();
+  return IMAGE_EXTS.includes(ext);
+}
+
+// 读取 JPEG 的 EXIF 拍摄时间 (DateTimeOriginal，缺失时退回 DateTime)
+// 只解析文件头部的 APP1 段，不依赖第三方库
+export async function readExifCaptureTime(file: File): Promise<number | null> {
+  try {
+    const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return null;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      const size = view.getUint16(offset + 2);
+      // APP1 + "Exif\0\0"
+      if (marker === 0xFFE1 && view.getUint32(offset + 4) === 0x45786966) {
+        return parseExifDate(view, offset + 10);
+      }
+      if ((marker & 0xFF00) !== 0xFF00) break;
+      offset += 2 + size;
+    }
+  } catch (e) {
+    console.warn(`读取 EXIF 失败: ${file.name}`, e);
+  }
+  return null;
+}
+
+const parseExifDate = (view: DataView, tiffStart: number): number | null => {
+  const little = view.getUint16(tiffStart) === 0x4949;
+  const u16 = (pos: number) => view.getUint16(pos, little);
+  const u32 = (pos: number) => view.getUint32(pos, little);
+
+  const readTags = (ifdOffset: number) => {
+    const tags = new Map<number, number>();
+    const ifdStart = tiffStart + ifdOffset;
+    if (ifdStart + 2 > view.byteLength) return tags;
+    const count = u16(ifdStart);
+    for (let i = 0; i < count; i++) {
+      const entry = ifdStart + 2 + i * 12;
+      if (entry + 12 > view.byteLength) break;
+      // 记录值字段的偏移：日期是 20 字节的 ASCII，必然存在偏移处
+      tags.set(u16(entry), u32(entry + 8));
+    }
+    return tags;
+  };
+
+  const readAscii = (valueOffset: number) => {
+    let str = '';
+    for (let i = 0; i < 19; i++) {
+      const pos = tiffStart + valueOffset + i;
+      if (pos >= view.byteLength) break;
+      str += String.fromCharCode(view.getUint8(pos));
+    }
+    return str;
+  };
+
+  const ifd0 = readTags(u32(tiffStart + 4));
+  const exifPointer = ifd0.get(0x8769);
+  const exifIfd = exifPointer !== undefined ? readTags(exifPointer) : new Map<number, number>();
+
+  const dateOffset = exifIfd.get(0x9003) ?? ifd0.get(0x0132);
+  if (dateOffset === undefined) return null;
+
+  // 格式: "YYYY:MM:DD HH:MM:SS"
+  const match = readAscii(dateOffset).match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  return new Date(y, mo - 1, d, h, mi, s).getTime();
+};
+
+// 按文件名（自然排序，page2 排在 page10 之前）或拍摄时间排序
+export async function sortImageFiles(files: File[], order: ImageOrder): Promise<File[]> {
+  const byName = (a: File, b: File) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+
+  if (order === 'name') {
+    return [...files].sort(byName);
+  }
+
+  const times = await Promise.all(files.map(async f => (await readExifCaptureTime(f)) ?? f.lastModified));
+  return files
+    .map((file, i) => ({ file, time: times[i] }))
+    .sort((a, b) => (a.time - b.time) || byName(a.file, b.file))
+    .map(item => item.file);
+}
+
+// 将图片文件解码为 OffscreenCanvas（主线程与 Web Worker 中均可使用）
+// HEIC 只有 Safari 能原生解码，其它浏览器会在这里失败
+export async function loadImageToCanvas(file: File, maxSide: number): Promise<OffscreenCanvas> {
+  let bitmap: ImageBitmap | null = null;
+  try {
+    // 按 EXIF 方向摆正手机照片
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+    const ratio = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+    const canvas = new OffscreenCanvas(Math.round(bitmap.width * ratio), Math.round(bitmap.height * ratio));
+
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("无法创建 Canvas 上下文");
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } catch (e) {
+    const isHeic = /\.hei[cf]$/i.test(file.name) || /image\/hei[cf]/.test(file.type);
+    throw new Error(isHeic
+      ? `当前浏览器无法解码 HEIC 图片 (${file.name})，请使用 Safari 或先转换为 JPG。`
+      : `无法读取图片: ${file.name}`);
+  } finally {
+    bitmap?.close();
+  }
+}
+
+// 按最长边缩小 canvas（不放大），用于生成预览图
+export function scaleCanvas(canvas: OffscreenCanvas, maxSide: number): OffscreenCanvas {
+  const ratio = Math.min(1, maxSide / Math.max(canvas.width, canvas.height));
+  if (ratio === 1) return canvas;
+  const scaled = new OffscreenCanvas(Math.round(canvas.width * ratio), Math.round(canvas.height * ratio));
+  const ctx = scaled.getContext('2d');
+  if (!ctx) throw new Error("无法创建 Canvas 上下文");
+  ctx.drawImage(canvas, 0, 0, scaled.width, scaled.height);
+  return scaled;
+}
+
+// 将 canvas 编码为指定格式的 Base64（不含 data: 前缀）
+export async function canvasToBase64(canvas: OffscreenCanvas, type: string, quality?: number): Promise<string> {
+  const blob = await canvas.convertToBlob({ type, quality });
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  // 分段转换，避免大图片的参数列表超出调用栈限制
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
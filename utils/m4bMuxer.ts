@@ -0,0 +1,238 @@
+// === M4B 封装 ===
+// 把 AAC 帧写入 MP4 容器，并附带章节：
+// - QuickTime 章节文本轨（tref/chap），Apple 图书、iTunes 等使用
+// - Nero chpl 章节表（moov/udta），VLC、foobar2000 等使用
+// 布局为 ftyp + moov + mdat，所有帧放在同一个 chunk 中，offset 在 moov 写完后即可确定
+
+export interface M4bChapter {
+  title: string;
+  startSeconds: number;
+}
+
+export interface M4bInput {
+  sampleRate: number;
+  channels: number;
+  frames: Uint8Array<ArrayBuffer>[]; // AAC 原始帧，每帧 1024 个采样
+  audioSpecificConfig: Uint8Array;
+  bitrate: number;
+  chapters: M4bChapter[];
+  title: string;
+}
+
+const AAC_FRAME_SAMPLES = 1024;
+const MOVIE_TIMESCALE = 1000;
+const CHAPTER_TIMESCALE = 1000;
+
+const encoder = new TextEncoder();
+
+type Part = Uint8Array | number[];
+
+const concat = (parts: Part[]): Uint8Array<ArrayBuffer> => {
+  const arrays = parts.map(part => (part instanceof Uint8Array ? part : Uint8Array.from(part)));
+  const result = new Uint8Array(arrays.reduce((sum, array) => sum + array.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+};
+
+const u8 = (value: number) => [value & 0xff];
+const u16 = (value: number) => [(value >>> 8) & 0xff, value & 0xff];
+const u24 = (value: number) => [(value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const u32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const u64 = (value: number) => [...u32(Math.floor(value / 2 ** 32)), ...u32(value >>> 0)];
+const fourcc = (type: string) => Array.from(type, char => char.charCodeAt(0) & 0xff);
+const zeros = (count: number) => new Array<number>(count).fill(0);
+
+const box = (type: string, ...parts: Part[]): Uint8Array<ArrayBuffer> => {
+  const payload = concat(parts);
+  return concat([u32(payload.length + 8), fourcc(type), payload]);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...parts: Part[]) =>
+  box(type, u8(version), u24(flags), ...parts);
+
+const MATRIX = [...u32(0x00010000), ...u32(0), ...u32(0), ...u32(0), ...u32(0x00010000), ...u32(0), ...u32(0), ...u32(0), ...u32(0x40000000)];
+const LANGUAGE_UND = 0x55c4;
+
+// 相同时长的样本合并为一条 stts 记录
+const stts = (durations: number[]) => {
+  const runs: [number, number][] = [];
+  for (const duration of durations) {
+    const last = runs[runs.length - 1];
+    if (last && last[1] === duration) last[0]++;
+    else runs.push([1, duration]);
+  }
+  return fullBox('stts', 0, 0, u32(runs.length), ...runs.map(([count, duration]) => [...u32(count), ...u32(duration)]));
+};
+
+// 全部样本放在一个 chunk 里
+const sampleTables = (sampleEntry: Uint8Array, durations: number[], sizes: number[], chunkOffset: number) =>
+  box('stbl',
+    fullBox('stsd', 0, 0, u32(1), sampleEntry),
+    stts(durations),
+    fullBox('stsc', 0, 0, u32(1), u32(1), u32(sizes.length), u32(1)),
+    fullBox('stsz', 0, 0, u32(0), u32(sizes.length), ...sizes.map(u32)),
+    fullBox('stco', 0, 0, u32(1), u32(chunkOffset))
+  );
+
+const tkhd = (trackId: number, duration: number, enabled: boolean, volume: number) =>
+  fullBox('tkhd', 0, enabled ? 0x7 : 0,
+    u32(0), u32(0), u32(trackId), u32(0), u32(duration),
+    zeros(8), u16(0), u16(0), u16(volume), u16(0), MATRIX, u32(0), u32(0)
+  );
+
+const mdhd = (timescale: number, duration: number) =>
+  fullBox('mdhd', 0, 0, u32(0), u32(0), u32(timescale), u32(duration), u16(LANGUAGE_UND), u16(0));
+
+const hdlr = (handler: string, name: string) =>
+  fullBox('hdlr', 0, 0, u32(0), fourcc(handler), zeros(12), encoder.encode(name), [0]);
+
+const dinf = () => box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1)));
+
+// MPEG-4 描述符，长度用单字节（这里的描述符都很短）
+const descriptor = (tag: number, ...parts: Part[]) => {
+  const payload = concat(parts);
+  return concat([[tag, payload.length], payload]);
+};
+
+const mp4aEntry = (input: M4bInput) =>
+  box('mp4a',
+    zeros(6), u16(1),
+    zeros(8), u16(input.channels), u16(16), u16(0), u16(0), u32(input.sampleRate * 65536),
+    fullBox('esds', 0, 0,
+      descriptor(0x03, u16(0), u8(0),
+        descriptor(0x04, u8(0x40), u8(0x15), u24(0), u32(input.bitrate), u32(input.bitrate),
+          descriptor(0x05, input.audioSpecificConfig)
+        ),
+        descriptor(0x06, [0x02])
+      )
+    )
+  );
+
+// 3GPP 文本样本描述，与 ffmpeg 写入章节轨时使用的一致
+const textEntry = () =>
+  box('text',
+    zeros(6), u16(1),
+    u32(1), u8(0), u8(0), u32(0),
+    zeros(8),
+    u16(0), u16(0), u16(1), u8(0), u8(0), u32(0),
+    box('ftab', u16(1), u16(1), u8(0))
+  );
+
+// 章节文本样本：长度 + UTF-8 标题 + encd（声明 UTF-8 编码）
+const chapterSample = (title: string) => {
+  const text = encoder.encode(title);
+  return concat([u16(text.length), text, box('encd', u32(0x00000100))]);
+};
+
+// Nero 章节表，时间单位 100ns，标题最长 255 字节
+// 章节数只占一个字节，超出 255 个时只写前 255 个（QuickTime 章节轨不受此限制）
+const chpl = (chapters: M4bChapter[]) => {
+  const listed = chapters.slice(0, 255);
+  return fullBox('chpl', 1, 0, u32(0), u8(listed.length), ...listed.map(chapter => {
+    const title = truncateUtf8(chapter.title, 255);
+    return concat([u64(Math.round(chapter.startSeconds * 1e7)), u8(title.length), title]);
+  }));
+};
+
+const truncateUtf8 = (text: string, maxBytes: number): Uint8Array<ArrayBuffer> => {
+  let bytes = encoder.encode(text);
+  let chars = Array.from(text);
+  while (bytes.length > maxBytes) {
+    chars = chars.slice(0, -1);
+    bytes = encoder.encode(chars.join(''));
+  }
+  return bytes;
+};
+
+// iTunes 元数据中的标题（©nam）
+const metadata = (title: string) =>
+  fullBox('meta', 0, 0,
+    hdlr('mdir', ''),
+    box('ilst', box('\u00a9nam', box('data', u32(1), u32(0), encoder.encode(title))))
+  );
+
+export const muxM4b = (input: M4bInput): Blob => {
+  const sizes = input.frames.map(frame => frame.length);
+  const sampleCount = input.frames.length * AAC_FRAME_SAMPLES;
+  const durationSeconds = sampleCount / input.sampleRate;
+  const movieDuration = Math.round(durationSeconds * MOVIE_TIMESCALE);
+
+  // 章节必须从 0 开始、按时间递增，且不超过音频长度
+  const chapters = input.chapters
+    .filter(chapter => chapter.startSeconds < durationSeconds)
+    .sort((a, b) => a.startSeconds - b.startSeconds);
+  if (chapters.length > 0 && chapters[0].startSeconds > 0) {
+    chapters.unshift({ title: input.title, startSeconds: 0 });
+  }
+  const hasChapters = chapters.length > 0;
+  const chapterSamples = chapters.map(chapter => chapterSample(chapter.title));
+  const chapterStarts = chapters.map(chapter => Math.round(chapter.startSeconds * CHAPTER_TIMESCALE));
+  const chapterDuration = Math.round(durationSeconds * CHAPTER_TIMESCALE);
+  const chapterDurations = chapterStarts.map((start, i) => (i + 1 < chapterStarts.length ? chapterStarts[i + 1] : chapterDuration) - start);
+
+  const ftyp = box('ftyp', fourcc('M4B '), u32(0), fourcc('M4B '), fourcc('M4A '), fourcc('mp42'), fourcc('isom'));
+
+  const buildMoov = (audioOffset: number, chapterOffset: number) => {
+    const audioTrak = box('trak',
+      tkhd(1, movieDuration, true, 0x0100),
+      ...(hasChapters ? [box('tref', box('chap', u32(2)))] : []),
+      box('mdia',
+        mdhd(input.sampleRate, sampleCount),
+        hdlr('soun', 'SoundHandler'),
+        box('minf',
+          fullBox('smhd', 0, 0, u16(0), u16(0)),
+          dinf(),
+          sampleTables(mp4aEntry(input), sizes.map(() => AAC_FRAME_SAMPLES), sizes, audioOffset)
+        )
+      )
+    );
+
+    const chapterTrak = hasChapters
+      ? [box('trak',
+          tkhd(2, movieDuration, false, 0),
+          box('mdia',
+            mdhd(CHAPTER_TIMESCALE, chapterDuration),
+            hdlr('text', 'ChapterHandler'),
+            box('minf',
+              box('gmhd',
+                fullBox('gmin', 0, 0, u16(0x40), u16(0x8000), u16(0x8000), u16(0x8000), u16(0), u16(0)),
+                box('text', MATRIX)
+              ),
+              dinf(),
+              sampleTables(textEntry(), chapterDurations, chapterSamples.map(sample => sample.length), chapterOffset)
+            )
+          )
+        )]
+      : [];
+
+    return box('moov',
+      fullBox('mvhd', 0, 0,
+        u32(0), u32(0), u32(MOVIE_TIMESCALE), u32(movieDuration),
+        u32(0x00010000), u16(0x0100), zeros(10), MATRIX, zeros(24), u32(hasChapters ? 3 : 2)
+      ),
+      audioTrak,
+      ...chapterTrak,
+      box('udta', ...(hasChapters ? [chpl(chapters)] : []), metadata(input.title))
+    );
+  };
+
+  // 先用占位偏移量算出 moov 大小（偏移量不影响大小），再写入真实偏移
+  const moovSize = buildMoov(0, 0).length;
+  const audioBytes = sizes.reduce((sum, size) => sum + size, 0);
+  const chapterBytes = chapterSamples.reduce((sum, sample) => sum + sample.length, 0);
+  const mdatSize = 8 + audioBytes + chapterBytes;
+  if (ftyp.length + moovSize + mdatSize > 0xffffffff) {
+    throw new Error("音频过长，超出 M4B 文件大小上限 (4GB)，请改用 MP3 格式。");
+  }
+  const audioOffset = ftyp.length + moovSize + 8;
+  const moov = buildMoov(audioOffset, audioOffset + audioBytes);
+
+  return new Blob(
+    [ftyp, moov, concat([u32(mdatSize), fourcc('mdat')]), ...input.frames, ...chapterSamples],
+    { type: 'audio/mp4' }
+  );
+};
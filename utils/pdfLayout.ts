@@ -0,0 +1,350 @@
+// PDF 文本版面分析：基于 getTextContent 返回的文字坐标，识别页眉、页脚和页码
+
+// pdf.js TextItem 中用到的字段
+export interface PdfTextItem {
+  str: string;
+  transform: number[]; // [a, b, c, d, x, y]，y 从页面底部算起
+  width: number;
+  height: number;
+  hasEOL?: boolean;
+}
+
+export interface PdfTextLine {
+  items: PdfTextItem[];
+  text: string;
+  top: number; // 行基线距页面顶部的比例 (0 ~ 1)
+}
+
+export interface PdfPageLayout {
+  lines: PdfTextLine[];
+}
+
+// 页眉页脚区域：页面上下各 12% 之内，且是最靠边的两行
+const MARGIN_ZONE = 0.12;
+const MARGIN_LINES = 2;
+// 同一行文字至少在这么多页的页边出现，才视为页眉/页脚
+const MIN_REPEAT_PAGES = 3;
+
+// 只过滤掉空白项和 pdf.js 的 marked content 标记
+export function getTextItems(items: any[]): PdfTextItem[] {
+  return items.filter((item: any) => typeof item.str === 'string' && Array.isArray(item.transform));
+}
+
+// 按基线 y 坐标将文字项归并为行，行内按 x 排序
+export function groupItemsIntoLines(items: PdfTextItem[], pageHeight: number, pageBottom: number = 0): PdfTextLine[] {
+  const visible = items.filter(item => item.str.trim().length > 0);
+  const sorted = [...visible].sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4]);
+
+  const lines: { y: number; items: PdfTextItem[] }[] = [];
+  for (const item of sorted) {
+    const y = item.transform[5];
+    // 容差取字高的一半，兼容上下标和混排字体的细微偏移
+    const tolerance = Math.max(2, (item.height || Math.abs(item.transform[3]) || 10) / 2);
+    const line = lines.find(l => Math.abs(l.y - y) <= tolerance);
+    if (line) line.items.push(item);
+    else lines.push({ y, items: [item] });
+  }
+
+  const result: PdfTextLine[] = [];
+  for (const line of lines) {
+    const lineItems = line.items.sort((a, b) => a.transform[4] - b.transform[4]);
+    const top = pageHeight > 0 ? 1 - (line.y - pageBottom) / pageHeight : 0;
+
+    // 同一高度上水平间距过大的文字属于不同的栏（或表格单元格），拆成独立的行段
+    let segment: PdfTextItem[] = [];
+    const flush = () => {
+      if (segment.length === 0) return;
+      result.push({ items: segment, text: joinItemText(segment), top });
+      segment = [];
+    };
+    for (const item of lineItems) {
+      const prev = segment[segment.length - 1];
+      if (prev) {
+        const gap = item.transform[4] - (prev.transform[4] + prev.width);
+        const charHeight = prev.height || Math.abs(prev.transform[3]) || 10;
+        if (gap > charHeight * 2) flush();
+      }
+      segment.push(item);
+    }
+    flush();
+  }
+  return result;
+}
+
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uac00-\ud7af]/;
+
+// 行内文字项拼接：按水平间距判断是否需要空格，中日韩文字之间不加空格
+// pdf.js 经常把一个英文单词拆成多个文字项，无条件加空格会把单词拆散
+const joinItemText = (items: PdfTextItem[]): string => {
+  let text = '';
+  let prev: PdfTextItem | null = null;
+  for (const item of items) {
+    const str = item.str;
+    if (prev && text && !/\s$/.test(text) && !/^\s/.test(str)) {
+      const gap = item.transform[4] - (prev.transform[4] + prev.width);
+      const charHeight = prev.height || Math.abs(prev.transform[3]) || 10;
+      const bothCjk = CJK_CHAR.test(text.slice(-1)) && CJK_CHAR.test(str[0]);
+      if (!bothCjk && gap > charHeight * 0.15) text += ' ';
+    }
+    text += str;
+    prev = item;
+  }
+  return text.replace(/\s+/g, ' ').trim();
+};
+
+// 归一化用于跨页比较：数字（页码、章节号变化）统一替换，忽略空白
+const marginKey = (text: string) => text.replace(/\d+/g, '#').replace(/\s+/g, '');
+
+// 页码行：“12”、“- 12 -”、“第 12 页”、“12 / 300”、“Page 12” 以及罗马数字
+const PAGE_NUMBER_PATTERN = /^[-—–\s]*((第\s*)?\d+\s*(页)?(\s*[/／]\s*\d+)?|(page|p\.?)\s*\d+(\s*(of|\/)\s*\d+)?|x{0,3}(ix|iv|v?i{1,3}|v))[-—–\s]*$/i;
+
+// 单个字母的罗马数字（I、V）也可能是正文或标题，单独出现时不算页码
+const SINGLE_ROMAN_PATTERN = /^[-—–\s]*[iv][-—–\s]*$/i;
+
+export function isPageNumberLine(text: string): boolean {
+  const trimmed = text.trim();
+  return PAGE_NUMBER_PATTERN.test(trimmed) && !SINGLE_ROMAN_PATTERN.test(trimmed);
+}
+
+// 页码（含罗马数字）按页边位置（页眉 / 页脚）统计：同一位置在多页都是页码才删除，
+// 避免把恰好落在页边、只有一个数字或一个字母的正文行当成页码；键中含空格，不会与 marginKey 的结果重复
+const lineKey = (line: PdfTextLine) => PAGE_NUMBER_PATTERN.test(line.text.trim())
+  ? `page-number ${line.top <= MARGIN_ZONE ? 'head' : 'tail'}`
+  : marginKey(line.text);
+
+const marginLinesOf = (page: PdfPageLayout): PdfTextLine[] => {
+  const ordered = [...page.lines].sort((a, b) => a.top - b.top);
+  const head = ordered.slice(0, MARGIN_LINES).filter(line => line.top <= MARGIN_ZONE);
+  const tail = ordered.slice(-MARGIN_LINES).filter(line => line.top >= 1 - MARGIN_ZONE);
+  return [...head, ...tail];
+};
+
+// 跨页分析：找出在多页页边重复出现的行（书名页眉、章节标题、页码）
+export function detectRunningMargins(pages: PdfPageLayout[]): Set<string> {
+  const counts = new Map<string, number>();
+  for (const page of pages) {
+    const seen = new Set<string>();
+    for (const line of marginLinesOf(page)) {
+      const key = lineKey(line);
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+  }
+
+  const repeated = new Set<string>();
+  if (pages.length < MIN_REPEAT_PAGES) return repeated;
+  counts.forEach((count, key) => {
+    if (count >= MIN_REPEAT_PAGES) repeated.add(key);
+  });
+  return repeated;
+}
+
+// 返回该页中应当删除的页眉/页脚行
+export function findMarginLines(page: PdfPageLayout, repeated: Set<string>): Set<PdfTextLine> {
+  const removed = new Set<PdfTextLine>();
+  for (const line of marginLinesOf(page)) {
+    if (repeated.has(lineKey(line))) {
+      removed.add(line);
+    }
+  }
+  return removed;
+}
+
+// OCR 文本没有坐标，只能检查首尾行是否为页码
+export function stripPageNumberLines(text: string): string {
+  const lines = text.split('\n');
+  const firstIndex = lines.findIndex(line => line.trim().length > 0);
+  if (firstIndex !== -1 && isPageNumberLine(lines[firstIndex])) lines.splice(firstIndex, 1);
+
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (!lines[i].trim()) continue;
+    if (isPageNumberLine(lines[i])) lines.splice(i, 1);
+    break;
+  }
+  return lines.join('\n');
+}
+
+// === 阅读顺序重建 ===
+// 1. 检测分栏：统计行的水平覆盖范围，寻找贯穿正文区域的竖直空白带
+// 2. 每栏内按行从上到下排列，根据行距和缩进切分段落
+// 3. 英文单词跨行的连字符合并 (“exam-\nple” -> “example”)；复合词 (“well-\nknown”) 保留连字符
+
+interface LineBox {
+  line: PdfTextLine;
+  left: number;
+  right: number;
+  y: number;
+  height: number;
+}
+
+const toLineBox = (line: PdfTextLine): LineBox => {
+  const first = line.items[0];
+  const last = line.items[line.items.length - 1];
+  const heights = line.items.map(item => item.height || Math.abs(item.transform[3]) || 10);
+  return {
+    line,
+    left: Math.min(...line.items.map(item => item.transform[4])),
+    right: Math.max(first.transform[4] + first.width, last.transform[4] + last.width),
+    y: first.transform[5],
+    height: Math.max(...heights)
+  };
+};
+
+// 寻找栏间空白：在正文行的 x 覆盖直方图中，取中部连续为零的区间作为分栏线
+const findColumnGutters = (boxes: LineBox[], pageLeft: number, pageRight: number): number[] => {
+  const width = pageRight - pageLeft;
+  if (width <= 0 || boxes.length < 6) return [];
+
+  const bins = 100;
+  const coverage = new Array(bins).fill(0);
+  // 跨越大部分页宽的行（标题、通栏图注）不参与统计，否则会把栏间空白填满
+  const bodyBoxes = boxes.filter(box => (box.right - box.left) < width * 0.6);
+  if (bodyBoxes.length < 6) return [];
+
+  for (const box of bodyBoxes) {
+    const from = Math.max(0, Math.floor(((box.left - pageLeft) / width) * bins));
+    const to = Math.min(bins - 1, Math.floor(((box.right - pageLeft) / width) * bins));
+    for (let b = from; b <= to; b++) coverage[b]++;
+  }
+
+  const gutters: number[] = [];
+  // 只在页面中部 15% ~ 85% 之间寻找，两侧空白是页边距
+  let runStart = -1;
+  for (let b = Math.floor(bins * 0.15); b <= Math.ceil(bins * 0.85); b++) {
+    const empty = coverage[b] <= bodyBoxes.length * 0.02;
+    if (empty && runStart === -1) runStart = b;
+    if ((!empty || b === Math.ceil(bins * 0.85)) && runStart !== -1) {
+      const runEnd = empty ? b : b - 1;
+      // 栏间距至少占页宽 2%
+      if (runEnd - runStart + 1 >= 2) {
+        gutters.push(pageLeft + ((runStart + runEnd + 1) / 2 / bins) * width);
+      }
+      runStart = -1;
+    }
+  }
+
+  // 两侧都必须有足够的正文，才算真正的分栏
+  return gutters.filter(gutter => {
+    const leftCount = bodyBoxes.filter(box => box.right <= gutter).length;
+    const rightCount = bodyBoxes.filter(box => box.left >= gutter).length;
+    return leftCount >= 3 && rightCount >= 3;
+  });
+};
+
+const SENTENCE_END = /[。！？!?.:：;；…"”’」』)）]$/;
+
+const HYPHENATED_WORD = /[A-Za-z]+(?:-[A-Za-z]+)+/g;
+
+// 收集行内出现的带连字符的词（小写），用于判断跨行的连字符是否属于复合词
+export function collectHyphenatedWords(lines: PdfTextLine[], words: Set<string>): void {
+  for (const line of lines) {
+    for (const match of line.text.matchAll(HYPHENATED_WORD)) words.add(match[0].toLowerCase());
+  }
+}
+
+// 将一栏中的行拼接为段落文本
+const joinColumnLines = (boxes: LineBox[], hyphenatedWords: Set<string>): string => {
+  if (boxes.length === 0) return '';
+
+  const sorted = [...boxes].sort((a, b) => b.y - a.y);
+  const lineGaps = sorted.slice(1).map((box, i) => sorted[i].y - box.y).filter(gap => gap > 0);
+  const typicalGap = lineGaps.length > 0 ? [...lineGaps].sort((a, b) => a - b)[Math.floor(lineGaps.length / 2)] : 0;
+  const columnLeft = Math.min(...sorted.map(box => box.left));
+  const columnRight = Math.max(...sorted.map(box => box.right));
+
+  let text = sorted[0].line.text;
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1];
+    const current = sorted[i];
+    const gap = prev.y - current.y;
+
+    // 段落边界：行距明显变大、首行缩进，或上一行提前结束且以句末标点收尾
+    const isParagraphBreak =
+      (typicalGap > 0 && gap > typicalGap * 1.6) ||
+      (current.left - columnLeft > current.height * 1.5 && prev.left - columnLeft < current.height * 0.5) ||
+      (columnRight - prev.right > prev.height * 3 && SENTENCE_END.test(prev.line.text));
+
+    if (isParagraphBreak) {
+      text += '\n\n' + current.line.text;
+      continue;
+    }
+
+    const prevText = text;
+    const nextText = current.line.text;
+    if (/[A-Za-z]-$/.test(prevText) && /^[A-Za-z]/.test(nextText)) {
+      // 英文跨行连字符：下一行大写开头（Anglo-Saxon）或文档中别处写过带连字符的形式（well-known）时是复合词，
+      // 保留连字符；否则是断词，去掉连字符直接拼接
+      const head = prevText.match(/[A-Za-z]+-$/)![0];
+      const tail = nextText.match(/^[A-Za-z]+/)![0];
+      const isCompound = /^[A-Z]/.test(tail) || hyphenatedWords.has((head + tail).toLowerCase());
+      text = isCompound ? prevText + nextText : prevText.slice(0, -1) + nextText;
+    } else if (CJK_CHAR.test(prevText.slice(-1)) || CJK_CHAR.test(nextText[0])) {
+      // 中日韩文字换行处不需要空格
+      text += nextText;
+    } else {
+      text += ' ' + nextText;
+    }
+  }
+  return text;
+};
+
+// 按阅读顺序重建页面文本：通栏内容与分栏内容按纵向位置交替排列
+export function reconstructPageText(
+  lines: PdfTextLine[],
+  pageLeft: number,
+  pageRight: number,
+  hyphenatedWords: Set<string> = new Set()
+): string {
+  if (lines.length === 0) return '';
+
+  const boxes = lines.map(toLineBox);
+  const gutters = findColumnGutters(boxes, pageLeft, pageRight);
+
+  if (gutters.length === 0) {
+    return joinColumnLines(boxes, hyphenatedWords);
+  }
+
+  const edges = [pageLeft, ...gutters, pageRight];
+  const columnOf = (box: LineBox): number => {
+    for (let c = 0; c < edges.length - 1; c++) {
+      if (box.left >= edges[c] - 1 && box.right <= edges[c + 1] + 1) return c;
+    }
+    return -1; // 跨栏
+  };
+
+  // 自上而下切分为若干区块：跨栏行单独成块，相邻的分栏行合并为一块，块内逐栏阅读
+  const sorted = [...boxes].sort((a, b) => b.y - a.y);
+  const blocks: string[] = [];
+  let columnGroup: LineBox[][] = [];
+
+  const flushColumns = () => {
+    for (const column of columnGroup) {
+      const columnText = joinColumnLines(column, hyphenatedWords);
+      if (columnText) blocks.push(columnText);
+    }
+    columnGroup = [];
+  };
+
+  let spanningRun: LineBox[] = [];
+  const flushSpanning = () => {
+    if (spanningRun.length > 0) blocks.push(joinColumnLines(spanningRun, hyphenatedWords));
+    spanningRun = [];
+  };
+
+  for (const box of sorted) {
+    const column = columnOf(box);
+    if (column === -1) {
+      flushColumns();
+      spanningRun.push(box);
+    } else {
+      flushSpanning();
+      if (columnGroup.length === 0) columnGroup = edges.slice(1).map(() => []);
+      columnGroup[column].push(box);
+    }
+  }
+  flushColumns();
+  flushSpanning();
+
+  return blocks.join('\n\n');
+}
@@ -0,0 +1,107 @@
+import { PronunciationEntry } from '../types';
+import { SpokenText, TextReplacement, applyReplacements } from './spokenText';
+
+// === 发音词典 ===
+// 多音字（行、重、还）、人名、缩写（API、GDP）常被 TTS 读错
+// 朗读前把词条替换为读音：可以是拼音（如 "hang2" 或 "háng"），也可以是替代写法（如 "A P I"）
+
+const STORAGE_KEY = 'pronunciation_lexicon';
+
+// 拼音读音：只含字母、数字声调、空格、撇号、"u:" 和带声调的元音
+const PINYIN_PATTERN = /^[a-zA-ZüÜāáǎàēéěèīíǐìōóǒòūúǔùǖǘǚǜ1-5': ]+$/;
+
+const TONE_MARKS: Record<string, string> = {
+  a: 'āáǎà', e: 'ēéěè', i: 'īíǐì', o: 'ōóǒò', u: 'ūúǔù', ü: 'ǖǘǚǜ'
+};
+
+// 数字声调 -> 声调符号，如 "zhong4" -> "zhòng"；TTS 对带调号的拼音更可靠
+// 规则：有 a 或 e 标在其上，ou 标在 o 上，否则标在最后一个元音上
+const markSyllable = (syllable: string): string => {
+  const match = syllable.match(/^([a-zA-ZüÜv:]+)([1-5])$/);
+  if (!match) return syllable;
+  const base = match[1].replace(/v|u:/gi, 'ü');
+  const tone = Number(match[2]);
+  if (tone === 5) return base;
+
+  const lower = base.toLowerCase();
+  let index = lower.search(/[ae]/);
+  if (index < 0) index = lower.indexOf('ou');
+  if (index < 0) {
+    for (let i = lower.length - 1; i >= 0; i--) {
+      if (TONE_MARKS[lower[i]]) { index = i; break; }
+    }
+  }
+  if (index < 0) return base;
+  const marked = TONE_MARKS[lower[index]][tone - 1];
+  return base.slice(0, index) + marked + base.slice(index + 1);
+};
+
+export const isPinyinReading = (reading: string): boolean => PINYIN_PATTERN.test(reading) && /[1-5āáǎàēéěèīíǐìōóǒòūúǔùǖǘǚǜ]/.test(reading);
+
+// 朗读时实际使用的文字
+export const resolveReading = (reading: string): string =>
+  isPinyinReading(reading) ? reading.split(/\s+/).map(markSyllable).join(' ') : reading;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildMatcher = (entries: PronunciationEntry[]): RegExp | null => {
+  const terms = entries
+    .filter(entry => entry.enabled && entry.term.trim() && entry.reading.trim())
+    .map(entry => entry.term)
+    // 长词优先，"重庆" 先于 "重"
+    .sort((a, b) => b.length - a.length)
+    // 英文词条只匹配完整单词，避免 "API" 命中 "RAPID"
+    .map(term =>
+      (/^[A-Za-z0-9]/.test(term) ? '(?<![A-Za-z0-9])' : '')
+      + escapeRegExp(term)
+      + (/[A-Za-z0-9]$/.test(term) ? '(?![A-Za-z0-9])' : ''));
+  return terms.length > 0 ? new RegExp(terms.join('|'), 'g') : null;
+};
+
+// 把词条替换为读音，保留到原文的位置映射（用于高亮）
+export const applyPronunciation = (spoken: SpokenText, entries: PronunciationEntry[]): SpokenText => {
+  const matcher = buildMatcher(entries);
+  if (!matcher) return spoken;
+  const readings = new Map(entries.filter(entry => entry.enabled).map(entry => [entry.term, resolveReading(entry.reading.trim())]));
+
+  const replacements: TextReplacement[] = [];
+  for (const match of spoken.text.matchAll(matcher)) {
+    const reading = readings.get(match[0]);
+    if (reading === undefined) continue;
+    const start = match.index ?? 0;
+    replacements.push({ start, end: start + match[0].length, text: reading });
+  }
+  return applyReplacements(spoken, replacements);
+};
+
+// 统计词条在文本中的出现次数，供词典编辑器展示
+export const countPronunciationHits = (text: string, entries: PronunciationEntry[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const matcher = buildMatcher(entries);
+  if (!matcher) return counts;
+  for (const match of text.matchAll(matcher)) {
+    counts.set(match[0], (counts.get(match[0]) || 0) + 1);
+  }
+  return counts;
+};
+
+// === 持久化 ===
+
+const isPronunciationEntry = (value: any): value is PronunciationEntry =>
+  !!value && typeof value.id === 'string' && typeof value.term === 'string'
+  && typeof value.reading === 'string' && typeof value.enabled === 'boolean';
+
+export const loadPronunciationLexicon = (): PronunciationEntry[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(isPronunciationEntry) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const savePronunciationLexicon = (entries: PronunciationEntry[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+};
+
+export const createPronunciationEntryId = () => `word-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
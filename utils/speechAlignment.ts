@@ -0,0 +1,282 @@
+// === 朗读时间对齐 ===
+// Gemini 等音频类引擎不报告朗读位置，按「已播放时长 / 总时长 × 字数」估算时，句间停顿、标点和英文单词都会让高亮漂移
+// 这里用一个轻量的能量对齐器估算每个字的开始时间：
+// 1. 按 10ms 帧计算音量，找出首尾静音和句中的停顿
+// 2. 文字按标点切成短语，估算每个字的朗读时长权重（汉字 1，英文按音节，标点、空白 0）
+// 3. 动态规划把短语边界匹配到停顿上：匹配后的各段语速应尽量一致，强标点处没有停顿、或停顿落在短语中间都有代价
+// 4. 相邻锚点之间按权重线性分配时间（跳过未匹配的停顿）
+
+const FRAME_SECONDS = 0.01;
+const MIN_PAUSE_SECONDS = 0.12;
+// 单次转移最多跨越的短语数 / 停顿数，限制计算量
+const MAX_SPAN = 8;
+
+interface Pause {
+  start: number;
+  end: number;
+}
+
+interface Phrase {
+  start: number; // 朗读文本中的字符位置
+  end: number;
+  weight: number;
+  boundaryStrength: number; // 短语末尾标点的停顿强度：0 无，1 逗号类，2 句末
+}
+
+const STRONG_BREAK = /[。！？!?；;…\n]/;
+const WEAK_BREAK = /[，,、：:—]/;
+const CLOSING = /["'”’」』）)》】\]\s]/;
+const CJK = /[㐀-鿿豈-﫿぀-ヿ가-힯]/;
+const LATIN_WORD = /[A-Za-z]+(?:'[A-Za-z]+)?/g;
+
+const percentile = (values: number[], ratio: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * ratio))];
+};
+
+// 每帧音量（dB）
+const frameLevels = (samples: Float32Array, sampleRate: number): number[] => {
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const levels: number[] = [];
+  for (let start = 0; start < samples.length; start += frameSize) {
+    const end = Math.min(samples.length, start + frameSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    levels.push(10 * Math.log10(sum / (end - start) + 1e-10));
+  }
+  return levels;
+};
+
+// 找出有声范围与其中的停顿；音量起伏太小（噪声大或几乎没有停顿）时只返回有声范围
+const detectSpeech = (samples: Float32Array, sampleRate: number): { start: number; end: number; pauses: Pause[] } => {
+  const duration = samples.length / sampleRate;
+  const levels = frameLevels(samples, sampleRate);
+  if (levels.length < 10) return { start: 0, end: duration, pauses: [] };
+
+  const floor = percentile(levels, 0.1);
+  const peak = percentile(levels, 0.95);
+  if (peak - floor < 10) return { start: 0, end: duration, pauses: [] };
+  const threshold = floor + (peak - floor) * 0.3;
+
+  // 平滑一下，避免单帧的爆破音、齿音切断停顿
+  const voiced = levels.map((_, i) => {
+    const neighborhood = levels.slice(Math.max(0, i - 1), i + 2);
+    return Math.max(...neighborhood) > threshold;
+  });
+
+  const first = voiced.indexOf(true);
+  const last = voiced.lastIndexOf(true);
+  if (first < 0) return { start: 0, end: duration, pauses: [] };
+
+  const pauses: Pause[] = [];
+  let runStart = -1;
+  for (let i = first; i <= last; i++) {
+    if (!voiced[i] && runStart < 0) runStart = i;
+    if (voiced[i] && runStart >= 0) {
+      if ((i - runStart) * FRAME_SECONDS >= MIN_PAUSE_SECONDS) {
+        pauses.push({ start: runStart * FRAME_SECONDS, end: i * FRAME_SECONDS });
+      }
+      runStart = -1;
+    }
+  }
+  return { start: first * FRAME_SECONDS, end: Math.min(duration, (last + 1) * FRAME_SECONDS), pauses };
+};
+
+// 每个字的相对朗读时长
+const charWeights = (text: string): number[] => {
+  const weights = Array.from(text, (char): number => {
+    if (CJK.test(char)) return 1;
+    if (/\d/.test(char)) return 0.8;
+    if (/\s/.test(char) || STRONG_BREAK.test(char) || WEAK_BREAK.test(char) || CLOSING.test(char)) return 0;
+    if (/[A-Za-z]/.test(char)) return 0; // 英文单词整体计算，见下方
+    return /[\p{P}\p{S}]/u.test(char) ? 0 : 0.5;
+  });
+  // 英文单词按元音组估算音节数，每个音节约合 0.8 个汉字，平均分到各字母上
+  for (const match of text.matchAll(LATIN_WORD)) {
+    const syllables = Math.max(1, match[0].toLowerCase().match(/[aeiouy]+/g)?.length ?? 1);
+    const perLetter = (syllables * 0.8) / match[0].length;
+    for (let i = 0; i < match[0].length; i++) weights[(match.index ?? 0) + i] = perLetter;
+  }
+  return weights;
+};
+
+// 按标点切分短语；英文句点仅在其后是空白时视为句末
+const splitPhrases = (text: string, weights: number[]): Phrase[] => {
+  const phrases: Phrase[] = [];
+  let start = 0;
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const strength = STRONG_BREAK.test(char) || (char === '.' && /\s/.test(text[i + 1] ?? ''))
+      ? 2
+      : WEAK_BREAK.test(char) ? 1 : 0;
+    if (strength === 0) {
+      i++;
+      continue;
+    }
+    // 连续标点与后引号归入本短语，取其中最强的停顿
+    let end = i + 1;
+    let boundaryStrength = strength;
+    while (end < text.length && (STRONG_BREAK.test(text[end]) || WEAK_BREAK.test(text[end]) || CLOSING.test(text[end]))) {
+      if (STRONG_BREAK.test(text[end])) boundaryStrength = 2;
+      end++;
+    }
+    phrases.push({ start, end, weight: 0, boundaryStrength });
+    start = end;
+    i = end;
+  }
+  if (start < text.length) phrases.push({ start, end: text.length, weight: 0, boundaryStrength: 0 });
+
+  for (const phrase of phrases) {
+    for (let j = phrase.start; j < phrase.end; j++) phrase.weight += weights[j];
+  }
+  // 没有可读内容的短语（如单独的标点）并入前一个
+  return phrases.reduce<Phrase[]>((merged, phrase) => {
+    const previous = merged[merged.length - 1];
+    if (previous && phrase.weight === 0) {
+      previous.end = phrase.end;
+      previous.boundaryStrength = Math.max(previous.boundaryStrength, phrase.boundaryStrength);
+    } else {
+      merged.push({ ...phrase });
+    }
+    return merged;
+  }, []);
+};
+
+// 区间内的有声时长（扣除其中的停顿）
+const speakingTime = (from: number, to: number, pauses: Pause[]) =>
+  pauses.reduce((time, pause) => time - Math.max(0, Math.min(to, pause.end) - Math.max(from, pause.start)), to - from);
+
+// 把 [from, to] 中扣除停顿后的有声时间按比例 ratio (0~1) 映射回实际时间
+const timeAtRatio = (from: number, to: number, pauses: Pause[], ratio: number) => {
+  let remaining = speakingTime(from, to, pauses) * ratio;
+  let cursor = from;
+  for (const pause of pauses) {
+    if (pause.end <= from || pause.start >= to) continue;
+    const segment = Math.max(0, pause.start - cursor);
+    if (remaining <= segment) break;
+    remaining -= segment;
+    cursor = pause.end;
+  }
+  return Math.min(to, cursor + remaining);
+};
+
+const UNMATCHED_BOUNDARY_COST = [0, 0.6, 2];
+
+// 返回每个字（朗读文本坐标）开始朗读的时间（秒）；末尾多一项为结束时间
+export const alignSpeech = (samples: Float32Array, sampleRate: number, text: string): number[] => {
+  const { start: speechStart, end: speechEnd, pauses } = detectSpeech(samples, sampleRate);
+  const weights = charWeights(text);
+  const phrases = splitPhrases(text, weights);
+  const totalWeight = phrases.reduce((sum, phrase) => sum + phrase.weight, 0);
+
+  if (phrases.length === 0 || totalWeight === 0) {
+    return Array.from({ length: text.length + 1 }, (_, i) => speechStart + ((speechEnd - speechStart) * i) / Math.max(1, text.length));
+  }
+
+  // 平均每个权重单位的有声时长
+  const secondsPerUnit = speakingTime(speechStart, speechEnd, pauses) / totalWeight;
+
+  // 锚点：0 为有声起点，1..M 为停顿，M+1 为有声终点
+  const anchors: Pause[] = [{ start: speechStart, end: speechStart }, ...pauses, { start: speechEnd, end: speechEnd }];
+  const K = phrases.length;
+  const M = anchors.length - 1;
+  // pauseTotals[q]：前 q 个停顿的总时长。锚点 pj 与 j 之间跳过的停顿是 pauses[pj .. j-2]，
+  // 它们都完整落在区间内，有声时长 = 区间长度 - 停顿总时长，内层循环不必逐个遍历
+  const pauseTotals = [0];
+  for (const pause of pauses) pauseTotals.push(pauseTotals[pauseTotals.length - 1] + pause.end - pause.start);
+
+  // cost[k][j]：前 k 个短语结束于锚点 j 的最小代价
+  const cost: number[][] = Array.from({ length: K + 1 }, () => new Array<number>(M + 1).fill(Infinity));
+  const from: [number, number][][] = Array.from({ length: K + 1 }, () => new Array<[number, number]>(M + 1).fill([-1, -1]));
+  cost[0][0] = 0;
+
+  for (let k = 1; k <= K; k++) {
+    // 最后一个短语只能结束于有声终点
+    for (let j = 1; j <= M; j++) {
+      if (k === K && j !== M) continue;
+      if (k !== K && j === M) continue;
+      for (let pk = Math.max(0, k - MAX_SPAN); pk < k; pk++) {
+        for (let pj = Math.max(0, j - MAX_SPAN); pj < j; pj++) {
+          if (cost[pk][pj] === Infinity) continue;
+          const spanStart = anchors[pj].end;
+          const spanEnd = anchors[j].start;
+          if (spanEnd <= spanStart) continue;
+
+          let weight = 0;
+          let penalty = 0;
+          for (let p = pk; p < k; p++) {
+            weight += phrases[p].weight;
+            // 中间的短语边界没有对上停顿
+            if (p < k - 1) penalty += UNMATCHED_BOUNDARY_COST[phrases[p].boundaryStrength];
+          }
+          // 跳过的停顿落在短语内部（换气、英文词间），越长越不合理
+          for (let q = pj + 1; q < j; q++) penalty += 0.5 + (anchors[q].end - anchors[q].start) * 4;
+
+          const actual = Math.max(1e-3, spanEnd - spanStart - (pauseTotals[j - 1] - pauseTotals[pj]));
+          const expected = Math.max(1e-3, weight * secondsPerUnit);
+          const deviation = Math.log(actual / expected);
+          const total = cost[pk][pj] + penalty + 4 * Math.sqrt(Math.max(weight, 1)) * deviation * deviation;
+          if (total < cost[k][j]) {
+            cost[k][j] = total;
+            from[k][j] = [pk, pj];
+          }
+        }
+      }
+    }
+  }
+
+  const times = new Array<number>(text.length + 1).fill(speechStart);
+  if (cost[K][M] === Infinity) {
+    // 没有可行解（停顿过多或过密）时退回按权重线性分配
+    let cumulative = 0;
+    for (let i = 0; i < text.length; i++) {
+      times[i] = timeAtRatio(speechStart, speechEnd, pauses, cumulative / totalWeight);
+      cumulative += weights[i];
+    }
+    times[text.length] = speechEnd;
+    return times;
+  }
+
+  // 回溯，逐段分配时间
+  let k = K;
+  let j = M;
+  while (k > 0) {
+    const [pk, pj] = from[k][j];
+    const spanStart = anchors[pj].end;
+    const spanEnd = anchors[j].start;
+    const innerPauses = pauses.slice(pj, j - 1);
+    const textStart = phrases[pk].start;
+    const textEnd = phrases[k - 1].end;
+    let weight = 0;
+    for (let i = textStart; i < textEnd; i++) weight += weights[i];
+
+    let cumulative = 0;
+    for (let i = textStart; i < textEnd; i++) {
+      times[i] = timeAtRatio(spanStart, spanEnd, innerPauses, weight > 0 ? cumulative / weight : 0);
+      cumulative += weights[i];
+    }
+    k = pk;
+    j = pj;
+  }
+  times[text.length] = speechEnd;
+  return times;
+};
+
+// 已播放时间 -> 正在朗读的字（朗读文本坐标）；跳过不发音的标点、空白
+export const findSpokenIndexAt = (times: number[], elapsed: number): number => {
+  let low = 0;
+  let high = times.length - 2;
+  let result = 0;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (times[mid] <= elapsed) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  // 同一时刻的多个字（标点与其后的字）取最后一个，高亮落在将要读出的字上
+  return result;
+};
@@ -0,0 +1,256 @@
+import { SpokenText, TextReplacement, applyReplacements } from './spokenText';
+
+// === 朗读文本规范化 ===
+// 把数字、日期、时间、百分比、货币、单位、范围改写为中文读法，浏览器语音对这些写法的处理尤其不一致
+// 按上下文区分读法：电话、编号、年份逐位读，其余按数值读
+// 只改写发给 TTS 的文字（SpokenText），显示与高亮仍使用原文
+
+const DIGIT_NAMES = '零一二三四五六七八九';
+const SECTION_UNITS = ['', '万', '亿', '万亿'];
+
+// 逐位读；电话号码中的 1 读作“幺”
+const readDigits = (digits: string, phone = false): string =>
+  Array.from(digits, d => (phone && d === '1' ? '幺' : DIGIT_NAMES[Number(d)] ?? d)).join('');
+
+// 0 < n < 10000
+const readSection = (n: number): string => {
+  const units = ['', '十', '百', '千'];
+  let result = '';
+  let pendingZero = false;
+  for (let pos = 3; pos >= 0; pos--) {
+    const digit = Math.floor(n / 10 ** pos) % 10;
+    if (digit === 0) {
+      if (result) pendingZero = true;
+      continue;
+    }
+    if (pendingZero) {
+      result += '零';
+      pendingZero = false;
+    }
+    result += DIGIT_NAMES[digit] + units[pos];
+  }
+  return result;
+};
+
+// 整数按数值读，如 100010 -> 十万零一十；超过万亿级别的长串改为逐位读
+export const readInteger = (digits: string): string => {
+  const trimmed = digits.replace(/^0+(?=\d)/, '');
+  if (trimmed.length > 16) return readDigits(digits);
+  if (/^0+$/.test(trimmed)) return '零';
+
+  const sections: number[] = [];
+  for (let end = trimmed.length; end > 0; end -= 4) {
+    sections.unshift(Number(trimmed.slice(Math.max(0, end - 4), end)));
+  }
+
+  let result = '';
+  let pendingZero = false;
+  sections.forEach((value, i) => {
+    if (value === 0) {
+      if (result) pendingZero = true;
+      return;
+    }
+    if (result && (pendingZero || value < 1000)) result += '零';
+    result += readSection(value) + SECTION_UNITS[sections.length - 1 - i];
+    pendingZero = false;
+  });
+
+  // 十几不读“一十”；千、万、亿之前的二习惯读“两”
+  if (result.startsWith('一十')) result = result.slice(1);
+  return result.replace(/^二(?=[千万亿])/, '两');
+};
+
+// 带符号、千分位和小数的数字
+export const readNumber = (text: string): string => {
+  const negative = text.startsWith('-');
+  const [integer, fraction] = text.replace(/^-/, '').replace(/,/g, '').split('.');
+  let result = readInteger(integer);
+  if (fraction) result += '点' + readDigits(fraction);
+  return (negative ? '负' : '') + result;
+};
+
+// 数字后的单位；较长的写法在前，保证 "km/h" 先于 "km"、"mL" 先于 "m"
+const UNITS: Record<string, string> = {
+  'km/h': '千米每小时',
+  'm/s': '米每秒',
+  'kWh': '千瓦时',
+  'mAh': '毫安时',
+  'km²': '平方千米',
+  'cm²': '平方厘米',
+  'm²': '平方米',
+  'm³': '立方米',
+  '°C': '摄氏度',
+  '℃': '摄氏度',
+  '°F': '华氏度',
+  '℉': '华氏度',
+  '°': '度',
+  'km': '千米',
+  'cm': '厘米',
+  'mm': '毫米',
+  'nm': '纳米',
+  'kg': '千克',
+  'mg': '毫克',
+  'mL': '毫升',
+  'ml': '毫升',
+  'GHz': '吉赫',
+  'MHz': '兆赫',
+  'kHz': '千赫',
+  'Hz': '赫兹',
+  'kW': '千瓦',
+  'mA': '毫安',
+  'ms': '毫秒',
+  'min': '分钟',
+  'm': '米',
+  'g': '克',
+  'L': '升',
+  'W': '瓦',
+  'V': '伏',
+  'h': '小时',
+  '%': '%',
+  '％': '%',
+  '‰': '‰'
+};
+
+const CURRENCIES: Record<string, string> = { '¥': '元', '￥': '元', '$': '美元', '€': '欧元', '£': '英镑' };
+
+const OPERATORS: Record<string, string> = { '+': '加', '-': '减', '×': '乘', '÷': '除以', '=': '等于', '＝': '等于', '≈': '约等于' };
+
+// 前面出现这些词时，紧随的数字是号码，逐位读
+const DIGIT_CONTEXT = /(电话|手机|热线|号码|编号|编码|邮编|账号|卡号|单号|尾号|工号|学号|房间|QQ|No\.?|Tel|TEL|#)\s*[:：]?\s*$/;
+const PHONE_CONTEXT = /(电话|手机|热线|Tel|TEL)\s*[:：]?\s*$/;
+
+// 数字后紧跟量词或中文单位时，2 读作“两”：2个、2本书、2千克、2小时
+const MEASURE_WORD = /^\s*(?:个|本|件|位|次|人|天|只|张|条|块|辆|台|家|所|名|支|把|双|对|份|种|年|岁|周|星期|页|篇|首|部|场|杯|碗|瓶|层|间|座|栋|棵|朵|片|头|匹|项|句|倍|元|角|斤|两|公斤|千克|克|吨|公里|千米|米|厘米|毫米|升|毫升|小时|分钟|秒|点|趟|遍|回|步|票|套|颗|根|枚|盒|箱|包|袋)/;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const NUM = '\\d+(?:,\\d{3})*(?:\\.\\d+)?';
+// 字母单位后面不能紧跟字母（"5min" 可以，"5mins" 的 "m" 不行）
+const UNIT = `(?:${Object.keys(UNITS).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})(?![A-Za-z])`;
+// 数字前后紧挨字母时多为型号（MP3、5G、iPhone15），保持原样交给 TTS
+const START = '(?<![A-Za-z\\d.])';
+const END = '(?![A-Za-z\\d])';
+
+const PATTERN = new RegExp([
+  `(?<date>(?<!\\d)(?<year>\\d{4})(?<dateSep>[-/.])(?<month>\\d{1,2})\\k<dateSep>(?<day>\\d{1,2})(?!\\d))`,
+  `(?<time>(?<!\\d)(?<hour>\\d{1,2})[:：](?<minute>\\d{2})(?:[:：](?<second>\\d{2}))?(?!\\d))`,
+  `(?<phone>(?<!\\d)(?:1[3-9]\\d(?:[- ]?\\d{4}){2}|0\\d{2,3}-\\d{7,8}|[48]00-?\\d{3}-?\\d{4})(?!\\d))`,
+  `(?<version>${START}\\d+(?:\\.\\d+){2,}${END})`,
+  `(?<currency>[¥￥$€£])\\s*(?<amount>${NUM})`,
+  // 前后紧挨运算符时是算式而不是范围：10-3=7
+  `(?<range>${START}(?<![+×÷=＝≈]\\s*)(?<from>-?${NUM})(?<fromUnit>\\s*${UNIT})?\\s*[~～〜\\-–—]\\s*(?<to>-?${NUM})(?:(?<toUnit>\\s*${UNIT})|${END})(?!\\s*[+\\-×÷=＝≈]))`,
+  `(?<operator>(?<=\\d)\\s*[+\\-×÷=＝≈]\\s*(?=-?\\d))`,
+  `(?<quantity>${START}(?<number>-?${NUM})(?:(?<unit>\\s*${UNIT})|${END}))`,
+  `(?<per>(?<=[元米克升])\\/(?=[\\u4e00-\\u9fa5]))`
+].join('|'), 'g');
+
+const FULLWIDTH_PATTERN = /[０-９％．]/g;
+
+// 数字 + 单位；"2千克" 之类的计量读作“两”
+const readQuantity = (number: string, rawUnit?: string): string => {
+  const unit = rawUnit?.trim();
+  if (!unit) return readNumber(number);
+  const unitName = UNITS[unit];
+  if (unitName === '%') return '百分之' + readNumber(number);
+  if (unitName === '‰') return '千分之' + readNumber(number);
+  // 零下温度
+  if (number.startsWith('-') && unitName.endsWith('氏度')) return '零下' + readNumber(number.slice(1)) + unitName;
+  return (number === '2' ? '两' : readNumber(number)) + unitName;
+};
+
+type Groups = Record<string, string | undefined>;
+
+const readDate = (g: Groups): string | null => {
+  const month = Number(g.month);
+  const day = Number(g.day);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${readDigits(g.year!)}年${readInteger(g.month!)}月${readInteger(g.day!)}日`;
+};
+
+const readTime = (g: Groups): string | null => {
+  const hour = Number(g.hour);
+  const minute = Number(g.minute);
+  if (hour > 24 || minute > 59 || (g.second && Number(g.second) > 59)) return null;
+  let result = (hour === 2 ? '两' : readInteger(g.hour!)) + '点';
+  if (minute > 0) result += (minute < 10 ? '零' : '') + readInteger(g.minute!) + '分';
+  if (g.second && Number(g.second) > 0) result += readInteger(g.second) + '秒';
+  return result;
+};
+
+// 计数：量词前的 2 读“两”
+const readCount = (number: string, after: string): string =>
+  number === '2' && MEASURE_WORD.test(after) ? '两' : readNumber(number);
+
+// 不加单位的数字按上下文决定逐位读还是按数值读
+const readPlainNumber = (number: string, before: string, after: string): string => {
+  const isInteger = /^\d+$/.test(number);
+  if (isInteger && DIGIT_CONTEXT.test(before)) return readDigits(number, PHONE_CONTEXT.test(before));
+  // 年份：2024年
+  if (/^\d{4}$/.test(number) && /^\s*年/.test(after)) return readDigits(number);
+  // 以 0 开头的编号：007、0571
+  if (isInteger && number.length > 1 && number.startsWith('0')) return readDigits(number);
+  return readCount(number, after);
+};
+
+const rewriteMatch = (match: RegExpMatchArray, text: string): string | null => {
+  const g = match.groups as Groups;
+  const start = match.index ?? 0;
+  const before = text.slice(Math.max(0, start - 12), start);
+  const after = text.slice(start + match[0].length);
+
+  if (g.date) return readDate(g);
+  if (g.time) return readTime(g);
+  if (g.phone) return g.phone.split(/[- ]/).map(part => readDigits(part, true)).join(' ');
+  if (g.version) return g.version.split('.').map(readInteger).join('点');
+  if (g.currency) return readNumber(g.amount!) + CURRENCIES[g.currency];
+  if (g.range) {
+    // 年份范围：2020-2024年
+    if (!g.fromUnit && !g.toUnit && /^\d{4}$/.test(g.from!) && /^\d{4}$/.test(g.to!) && /^\s*年/.test(after)) {
+      return `${readDigits(g.from!)}至${readDigits(g.to!)}`;
+    }
+    // "3-5kg"：单位只写在后面时，前一个数字不带单位；"2-3个" 按量词读“两至三个”
+    if (!g.fromUnit && !g.toUnit) return `${readCount(g.from!, after)}至${readCount(g.to!, after)}`;
+    return `${readQuantity(g.from!, g.fromUnit)}至${readQuantity(g.to!, g.toUnit)}`;
+  }
+  if (g.operator) return OPERATORS[g.operator.trim()];
+  if (g.quantity) return g.unit ? readQuantity(g.number!, g.unit) : readPlainNumber(g.number!, before, after);
+  if (g.per) return '每';
+  return null;
+};
+
+const CJK_CHAR = /[\u3000-\u303f\u3400-\u9fff\uf900-\ufaff\uff01-\uff60]/;
+const CJK_CHARS = /[\u3000-\u303f\u3400-\u9fff\uf900-\ufaff\uff01-\uff60]/g;
+const LATIN_CHAR = /[A-Za-z]/;
+const LATIN_CHARS = /[A-Za-z]/g;
+
+// 只改写中文语境里的数字，英文句子里的数字留给 TTS 按英文读：
+// 先看两侧最近的非空白字符，紧挨汉字即为中文，紧挨字母即为英文；都不是时看附近哪种文字多
+const isChineseContext = (text: string, start: number, end: number): boolean => {
+  const before = text.slice(0, start).trimEnd().slice(-1);
+  const after = text.slice(end).trimStart().charAt(0);
+  if (CJK_CHAR.test(before) || CJK_CHAR.test(after)) return true;
+  if (LATIN_CHAR.test(before) || LATIN_CHAR.test(after)) return false;
+  const nearby = text.slice(Math.max(0, start - 20), end + 20);
+  return (nearby.match(CJK_CHARS)?.length ?? 0) >= (nearby.match(LATIN_CHARS)?.length ?? 0);
+};
+
+export const normalizeForSpeech = (spoken: SpokenText): SpokenText => {
+  // 全角数字先转为半角，便于统一匹配
+  const halfWidth = applyReplacements(spoken, Array.from(spoken.text.matchAll(FULLWIDTH_PATTERN), match => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + 1,
+    text: match[0] === '％' ? '%' : match[0] === '．' ? '.' : String.fromCharCode(match[0].charCodeAt(0) - 0xfee0)
+  })));
+
+  const replacements: TextReplacement[] = [];
+  for (const match of halfWidth.text.matchAll(PATTERN)) {
+    const start = match.index ?? 0;
+    if (!isChineseContext(halfWidth.text, start, start + match[0].length)) continue;
+    let reading = rewriteMatch(match, halfWidth.text);
+    if (reading === null) continue;
+    // 原文已写了“零下”（零下-5℃），不再重复
+    if (reading.startsWith('零下') && /零下\s*$/.test(halfWidth.text.slice(0, start))) reading = reading.slice(2);
+    replacements.push({ start, end: start + match[0].length, text: reading });
+  }
+  return applyReplacements(halfWidth, replacements);
+};
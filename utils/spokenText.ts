@@ -0,0 +1,45 @@
+// === 朗读文本 ===
+// 发给 TTS 的文字可能与显示的文字不同（发音词典替换等），
+// 但高亮仍要落在原文上，因此记录朗读文本每个字符对应的原文位置
+
+export interface SpokenText {
+  text: string; // 发给 TTS 的文字
+  offsets: number[]; // offsets[i] 为 text[i] 在原文中的位置；末尾多一项，为原文长度
+}
+
+// 对 [start, end) 区间的替换，坐标基于被替换的文字（可以是已改写过的朗读文本）
+export interface TextReplacement {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export const toSpokenText = (text: string): SpokenText => ({
+  text,
+  offsets: Array.from({ length: text.length + 1 }, (_, i) => i)
+});
+
+// 依次应用互不重叠的替换；替换进来的字符都对应被替换片段在原文中的起点
+export const applyReplacements = (source: SpokenText, replacements: TextReplacement[]): SpokenText => {
+  if (replacements.length === 0) return source;
+  const sorted = [...replacements].sort((a, b) => a.start - b.start);
+
+  let text = '';
+  const offsets: number[] = [];
+  let cursor = 0;
+  for (const { start, end, text: replacement } of sorted) {
+    if (start < cursor) continue; // 与前一处重叠，忽略
+    text += source.text.slice(cursor, start);
+    offsets.push(...source.offsets.slice(cursor, start));
+    text += replacement;
+    for (let i = 0; i < replacement.length; i++) offsets.push(source.offsets[start]);
+    cursor = end;
+  }
+  text += source.text.slice(cursor);
+  offsets.push(...source.offsets.slice(cursor));
+  return { text, offsets };
+};
+
+// TTS 报告的朗读位置 -> 原文位置
+export const toDisplayOffset = (spoken: SpokenText, spokenIndex: number): number =>
+  spoken.offsets[Math.max(0, Math.min(spokenIndex, spoken.offsets.length - 1))];
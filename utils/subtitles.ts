@@ -0,0 +1,84 @@
+import { SubtitleCue, SubtitleFormat } from '../types';
+import { splitSentences } from './textUtils';
+
+// === 字幕 / 歌词导出 ===
+// 每个片段的音频时长已知，片段内按句切分，按各句朗读文字的长度分配时长
+// 时间按片段顺序累加，再除以播放速度（倍速录制的音频时间轴会相应缩短）
+
+export interface ChunkTiming {
+  start: number; // 秒，片段在音频中的起点
+  duration: number;
+}
+
+// 句内换行也拆开：标题、列表项往往没有句末标点
+const splitCueTexts = (chunk: string): string[] =>
+  splitSentences(chunk)
+    .flatMap(sentence => sentence.split(/\n+/))
+    .map(text => text.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+// weigh 返回一句话的朗读长度（通常是改写为读法后的字数），决定它在片段内分到的时长
+export const buildSubtitleCues = (
+  chunks: string[],
+  timings: ChunkTiming[],
+  weigh: (sentence: string) => number,
+  playbackRate: number = 1
+): SubtitleCue[] => {
+  const rate = playbackRate > 0 ? playbackRate : 1;
+  const cues: SubtitleCue[] = [];
+
+  chunks.forEach((chunk, i) => {
+    const timing = timings[i];
+    if (!timing || timing.duration <= 0) return;
+
+    const texts = splitCueTexts(chunk);
+    const weights = texts.map(text => Math.max(1, weigh(text)));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    let cursor = timing.start;
+    texts.forEach((text, j) => {
+      const duration = (timing.duration * weights[j]) / totalWeight;
+      cues.push({ start: cursor / rate, end: (cursor + duration) / rate, text });
+      cursor += duration;
+    });
+  });
+  return cues;
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// hh:mm:ss + 毫秒，SRT 用逗号分隔毫秒，WebVTT 用句点
+const formatClock = (seconds: number, separator: ',' | '.') => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor(totalMs / 60000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+// LRC 时间为 [mm:ss.xx]，分钟可超过 59
+const formatLrcClock = (seconds: number) => {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  return `${pad(Math.floor(totalCs / 6000))}:${pad(Math.floor(totalCs / 100) % 60)}.${pad(totalCs % 100)}`;
+};
+
+export const formatSrt = (cues: SubtitleCue[]): string =>
+  cues.map((cue, i) => `${i + 1}\n${formatClock(cue.start, ',')} --> ${formatClock(cue.end, ',')}\n${cue.text}\n`).join('\n');
+
+// WebVTT 中 "-->" 会被当作时间分隔符，& 与 < 需要转义
+export const formatVtt = (cues: SubtitleCue[]): string =>
+  'WEBVTT\n\n' + cues.map(cue => {
+    const text = cue.text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/-->/g, '->');
+    return `${formatClock(cue.start, '.')} --> ${formatClock(cue.end, '.')}\n${text}\n`;
+  }).join('\n');
+
+export const formatLrc = (cues: SubtitleCue[], title?: string): string => {
+  const header = title ? `[ti:${title}]\n` : '';
+  return header + cues.map(cue => `[${formatLrcClock(cue.start)}]${cue.text}`).join('\n') + '\n';
+};
+
+export const formatSubtitles = (cues: SubtitleCue[], format: SubtitleFormat, title?: string): string => {
+  if (format === 'vtt') return formatVtt(cues);
+  if (format === 'lrc') return formatLrc(cues, title);
+  return formatSrt(cues);
+};
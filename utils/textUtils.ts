@@ -1,23 +1,22 @@
 // 将长文本智能切分为适合 TTS 的片段
 // 修改：默认长度增加到 1500，以减少浏览器语音合成时的段落间停顿
+// 以句子为单位累积，句子边界见 splitSentences；单句超长时再忽略引号拆分
 export function splitTextIntoChunks(text: string, maxChars: number = 1500): string[] {
   if (!text) return [];
 
-  // 按常见结束标点分割，保留标点
-  // 匹配：句号、问号、感叹号、换行符
-  const sentences = text.split(/([。.！!？?\n\r]+)/);
   const chunks: string[] = [];
   let currentChunk = '';
 
-  for (let i = 0; i < sentences.length; i++) {
-    const s = sentences[i];
-    
-    // 如果当前块加上新句子超过最大长度，且当前块不为空，则保存当前块
-    if (currentChunk.length + s.length > maxChars && currentChunk.trim().length > 0) {
-      chunks.push(currentChunk.trim());
-      currentChunk = '';
+  for (const sentence of splitSentences(text)) {
+    const pieces = sentence.length > maxChars ? splitSentences(sentence, false) : [sentence];
+    for (const piece of pieces) {
+      // 如果当前块加上新句子超过最大长度，且当前块不为空，则保存当前块
+      if (currentChunk.length + piece.length > maxChars && currentChunk.trim().length > 0) {
+        chunks.push(currentChunk.trim());
+        currentChunk = '';
+      }
+      currentChunk += piece;
     }
-    currentChunk += s;
   }
   
   // 添加最后剩余的部分
@@ -28,6 +27,102 @@ export function splitTextIntoChunks(text: string, maxChars: number = 1500): stri
   return chunks;
 }
 
+// === 分句 ===
+// 句末标点后紧跟的后引号、后括号归入本句；引号、括号内部不断句（如 他说：“走吧。我们走。”）
+// 英文句点在小数、缩写（Dr.、e.g.）、人名首字母、编号（1.）和网址中不断句
+
+const SENTENCE_END = /[。！？!?…]/;
+const OPENERS: Record<string, string> = { '“': '”', '‘': '’', '「': '」', '『': '』', '（': '）', '(': ')', '《': '》', '【': '】' };
+const CLOSERS = new Set(Object.values(OPENERS));
+const TRAILING_CLOSERS = /["'”’」』）)》】\]]/;
+
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'vs', 'etc', 'e.g', 'i.e', 'cf', 'al',
+  'fig', 'vol', 'p', 'pp', 'ch', 'sec', 'ed', 'inc', 'ltd', 'co', 'corp', 'dept', 'approx', 'u.s', 'u.k', 'a.m', 'p.m'
+]);
+
+// 英文句点是否真的结束句子
+const isSentencePeriod = (text: string, index: number, sentenceStart: number): boolean => {
+  const next = text[index + 1];
+  // 后面紧跟非空白字符：小数 3.14、网址、e.g. 中间的点
+  if (next !== undefined && !/\s/.test(next) && next !== '.' && !TRAILING_CLOSERS.test(next)) return false;
+
+  const word = text.slice(sentenceStart, index).match(/([A-Za-z][A-Za-z.]*|\d+)$/)?.[1];
+  if (!word) return true;
+  // 段首编号 "1." 或 "12."
+  if (/^\d+$/.test(word)) return text.slice(sentenceStart, index).trim() !== word;
+  // 人名首字母 "J. K. Rowling"
+  if (/^[A-Z]$/.test(word)) return false;
+  // "No. 5" 是编号，但 "I said no." 是句末
+  if (word === 'No' && /^\s*\d/.test(text.slice(index + 1))) return false;
+  return !ABBREVIATIONS.has(word.toLowerCase());
+};
+
+// 把文本切分为句子，拼接后与原文完全一致；respectQuotes 为 false 时引号内也断句
+export function splitSentences(text: string, respectQuotes: boolean = true): string[] {
+  const sentences: string[] = [];
+  const pending: string[] = []; // 尚未闭合的引号、括号
+  let asciiQuoteOpen = false;
+  let start = 0;
+  let i = 0;
+
+  const cut = (end: number) => {
+    if (end > start) sentences.push(text.slice(start, end));
+    start = end;
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    // 换行总是断句，并结束段内所有未闭合的引号（OCR 常丢失后引号）
+    if (ch === '\n' || ch === '\r') {
+      let end = i + 1;
+      while (end < text.length && (text[end] === '\n' || text[end] === '\r')) end++;
+      cut(end);
+      pending.length = 0;
+      asciiQuoteOpen = false;
+      i = end;
+      continue;
+    }
+
+    if (OPENERS[ch]) {
+      pending.push(OPENERS[ch]);
+    } else if (CLOSERS.has(ch)) {
+      const at = pending.lastIndexOf(ch);
+      if (at !== -1) pending.length = at;
+    } else if (ch === '"') {
+      asciiQuoteOpen = !asciiQuoteOpen;
+    }
+
+    const isEnd = SENTENCE_END.test(ch) || (ch === '.' && isSentencePeriod(text, i, start));
+    if (!isEnd) {
+      i++;
+      continue;
+    }
+
+    // 连续的句末标点（?!、……、...）与紧随的后引号、后括号一起归入本句
+    let end = i + 1;
+    while (end < text.length && (SENTENCE_END.test(text[end]) || text[end] === '.')) end++;
+    while (end < text.length && TRAILING_CLOSERS.test(text[end])) {
+      const closer = text[end];
+      if (closer === '"') {
+        if (!asciiQuoteOpen) break;
+        asciiQuoteOpen = false;
+      } else {
+        const at = pending.lastIndexOf(closer);
+        if (at !== -1) pending.length = at;
+      }
+      end++;
+    }
+
+    if (!respectQuotes || (pending.length === 0 && !asciiQuoteOpen)) cut(end);
+    i = end;
+  }
+
+  cut(text.length);
+  return sentences;
+}
+
 // 根据给定的索引，找出包含该索引的单词或字符范围
 export function getWordAt(text: string, index: number): { start: number; end: number } {
   if (index < 0 || index >= text.length) return { start: 0, end: 0 };
@@ -53,4 +148,156 @@ export function getWordAt(text: string, index: number): { start: number; end: nu
   }
 
   return { start, end };
-}
\ No newline at end of file
+}
+
+// 常用字表：用于区分 GBK（简体）与 Big5（繁体）编码
+const COMMON_SIMPLIFIED = '的一是不了人我在有他这中大来上个们到说国和地也子时道出而要于就下得可你年生';
+const COMMON_TRADITIONAL = '的一是不了人我在有他這中大來上個們到說國和地也子時道出而要於就下得可你年生';
+
+// 识别并解码文本文件：支持 UTF-8 / UTF-16 (BOM)、GBK 和 Big5
+// 很多中文 txt 小说是 GBK 编码，直接按 UTF-8 读取会变成乱码
+export function decodeTextBuffer(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return new TextDecoder('utf-8').decode(bytes.subarray(3));
+  }
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+
+  // 严格模式下 UTF-8 解码成功，基本可以确定就是 UTF-8
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch (e) {
+    // 不是合法的 UTF-8，继续尝试双字节编码
+  }
+
+  const score = (text: string, common: string) => {
+    let hits = 0;
+    let invalid = 0;
+    for (const char of text) {
+      if (char === '�') invalid++;
+      else if (common.includes(char)) hits++;
+    }
+    return hits - invalid * 10;
+  };
+
+  const candidates = ['gbk', 'big5'].map(encoding => {
+    const text = new TextDecoder(encoding).decode(bytes);
+    const common = encoding === 'gbk' ? COMMON_SIMPLIFIED : COMMON_TRADITIONAL;
+    return { text, score: score(text, common) };
+  });
+
+  return candidates[0].score >= candidates[1].score ? candidates[0].text : candidates[1].text;
+}
+
+// 去除 Markdown 标记，让标题、列表、链接读起来自然，而不是念出 # 和 * 符号
+export function markdownToText(markdown: string): string {
+  let text = markdown.replace(/\r\n?/g, '\n');
+
+  // YAML front matter
+  text = text.replace(/^---\n[\s\S]*?\n---\n/, '');
+  // 代码块只保留内容，去掉围栏
+  text = text.replace(/^(```|~~~)[^\n]*\n([\s\S]*?)^\1[ \t]*$/gm, '$2');
+  // 自动链接要在去 HTML 标签之前处理，否则会被当作标签删掉
+  text = text.replace(/<(https?:\/\/[^>]+)>/g, '');
+  // HTML 注释与标签
+  text = text.replace(/<!--[\s\S]*?-->/g, '');
+  text = text.replace(/<\/?[a-zA-Z][^>]*>/g, '');
+
+  text = text.split('\n').map(line => {
+    // 链接引用定义、分隔线、表格对齐行整行删除
+    if (/^\s{0,3}\[[^\]]+\]:\s*\S+/.test(line)) return null;
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) return null;
+    if (/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line)) return null;
+    // Setext 标题的下划线
+    if (/^\s{0,3}(=+|-+)\s*$/.test(line)) return null;
+
+    let l = line;
+    // ATX 标题：标题单独成段
+    const heading = l.match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+    if (heading) return `\n${heading[1]}\n`;
+
+    l = l.replace(/^\s{0,3}(>\s?)+/, '');
+    l = l.replace(/^\s*([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?/, '');
+    // 表格行：单元格之间用空格分隔
+    if (/^\s*\|.*\|\s*$/.test(l)) {
+      l = l.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim()).join(' ');
+    }
+    return l;
+  }).filter((line): line is string => line !== null).join('\n');
+
+  // 行内元素
+  text = text.replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1');
+  text = text.replace(/\[([^\]]+)\]\([^)]*\)/g, '$1');
+  text = text.replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1');
+  text = text.replace(/`([^`]+)`/g, '$1');
+  text = text.replace(/\*\*(.+?)\*\*/g, '$1');
+  text = text.replace(/\*(\S(?:.*?\S)?)\*/g, '$1');
+  // 下划线强调只在词边界生效，避免破坏 snake_case 之类的标识符
+  text = text.replace(/(^|[^\w])__?(\S(?:.*?\S)?)__?(?![\w])/gm, '$1$2');
+  text = text.replace(/~~(.+?)~~/g, '$1');
+  text = text.replace(/\\([\\`*_{}\[\]()#+\-.!|>~])/g, '$1');
+
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// 计算每个片段在原文中的起始位置（片段经过 trim，需要顺序查找）
+export function locateChunkOffsets(text: string, chunks: string[]): number[] {
+  const offsets: number[] = [];
+  let cursor = 0;
+  for (const chunk of chunks) {
+    const found = text.indexOf(chunk, cursor);
+    const start = found === -1 ? cursor : found;
+    offsets.push(start);
+    cursor = start + chunk.length;
+  }
+  return offsets;
+}
+
+// 找出包含指定文本位置的片段序号
+export function findChunkIndexAtOffset(chunkOffsets: number[], offset: number): number {
+  let index = 0;
+  for (let i = 0; i < chunkOffsets.length; i++) {
+    if (chunkOffsets[i] <= offset) index = i;
+    else break;
+  }
+  return index;
+}
+
+// 用新识别的文字替换全文中某一页的内容（OCR 复核使用）
+// 旧文字在原偏移附近查找，用户手动改过全文导致找不到时返回 null；空白页则在原位置插入
+export function replacePageText(
+  text: string,
+  offset: number,
+  oldPageText: string,
+  newPageText: string
+): { text: string; start: number; delta: number } | null {
+  if (oldPageText) {
+    const found = text.indexOf(oldPageText, Math.max(0, offset - oldPageText.length));
+    if (found === -1) return null;
+    const updated = text.slice(0, found) + newPageText + text.slice(found + oldPageText.length);
+    return { text: updated, start: found, delta: newPageText.length - oldPageText.length };
+  }
+
+  if (!newPageText) return { text, start: offset, delta: 0 };
+  const start = Math.min(offset, text.length);
+  // 前后各保留一个空行，与解析时的分页方式一致
+  const insertion = start >= text.length
+    ? (text ? '\n\n' : '') + newPageText
+    : newPageText + '\n\n';
+  const updated = text.slice(0, start) + insertion + text.slice(start);
+  const leading = start >= text.length && text ? 2 : 0;
+  return { text: updated, start: start + leading, delta: insertion.length };
+}
+
+// 比较编辑前后的全文，找出被改动的区间 [start, end)（按编辑前的偏移）及长度变化，
+// 用于手动编辑后平移章节等偏移
+export function locateTextEdit(before: string, after: string): { start: number; end: number; delta: number } {
+  const maxCommon = Math.min(before.length, after.length);
+  let start = 0;
+  while (start < maxCommon && before[start] === after[start]) start++;
+  let suffix = 0;
+  while (suffix < maxCommon - start && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+  return { start, end: before.length - suffix, delta: after.length - before.length };
+}
@@ -1,3 +1,5 @@
+/// <reference types="vite/client" />
+
 declare namespace NodeJS {
   interface ProcessEnv {
     API_KEY: string;
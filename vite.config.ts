@@ -1,13 +1,63 @@
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import fs from 'node:fs';
+import path from 'node:path';
+
+// 本地 OCR 所需的静态资源：Tesseract worker、WASM 内核与语言包
+// 全部随应用一起发布到 /tesseract/ 下，离线或内网环境无需访问任何 CDN
+const OCR_LANGUAGES = ['chi_sim', 'chi_tra', 'jpn', 'eng'];
+// 只使用 LSTM 引擎 (OEM.LSTM_ONLY)，tesseract.js 会按浏览器是否支持 SIMD 在两个内核中选择
+const CORE_VARIANTS = ['tesseract-core-lstm', 'tesseract-core-simd-lstm'];
+
+const ocrAssets = (): { url: string; file: string }[] => [
+  { url: 'tesseract/worker.min.js', file: 'node_modules/tesseract.js/dist/worker.min.js' },
+  ...CORE_VARIANTS.map(name => ({
+    url: `tesseract/core/${name}.wasm.js`,
+    file: `node_modules/tesseract.js-core/${name}.wasm.js`
+  })),
+  ...OCR_LANGUAGES.map(lang => ({
+    url: `tesseract/lang/${lang}.traineddata.gz`,
+    file: `node_modules/@tesseract.js-data/${lang}/4.0.0_best_int/${lang}.traineddata.gz`
+  }))
+];
+
+const selfHostedOcrAssets = (): Plugin => {
+  let base = '/';
+  return {
+    name: 'self-hosted-ocr-assets',
+    configResolved(config) {
+      base = config.base;
+    },
+    // 开发环境：直接从 node_modules 提供文件
+    configureServer(server) {
+      const assets = new Map(ocrAssets().map(asset => [base + asset.url, path.resolve(asset.file)]));
+      server.middlewares.use((req, res, next) => {
+        const filePath = assets.get((req.url || '').split('?')[0]);
+        if (!filePath) return next();
+        res.setHeader('Content-Type', filePath.endsWith('.js') ? 'application/javascript' : 'application/octet-stream');
+        fs.createReadStream(filePath).pipe(res);
+      });
+    },
+    // 构建：复制到输出目录
+    generateBundle() {
+      for (const asset of ocrAssets()) {
+        this.emitFile({ type: 'asset', fileName: asset.url, source: fs.readFileSync(path.resolve(asset.file)) });
+      }
+    }
+  };
+};
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
   return {
-    plugins: [react()],
+    plugins: [react(), selfHostedOcrAssets()],
+    // 解析 Worker 以 module 方式创建 (services/parserClient.ts)
+    worker: {
+      format: 'es'
+    },
     define: {
       // 关键：将 Vercel 的环境变量注入到代码中，使其可以通过 process.env.API_KEY 访问
       'process.env.API_KEY': JSON.stringify(env.API_KEY)
     }
   };
-});
\ No newline at end of file
+});